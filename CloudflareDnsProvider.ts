@@ -0,0 +1,146 @@
+import https = require("https");
+import DomainConfig = require("./DomainConfig");
+import DomainInfo = require("./DomainInfo");
+import ServerlessCustomDomain = require("./index");
+import { DnsProvider } from "./types";
+
+/**
+ * Manages the records of custom domains in Cloudflare through its HTTP API.
+ * Domains are pointed to their API Gateway target by CNAME records, authenticated with CLOUDFLARE_API_TOKEN.
+ */
+class CloudflareDnsProvider implements DnsProvider {
+
+    public plugin: ServerlessCustomDomain;
+
+    constructor(plugin: ServerlessCustomDomain) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Change the CNAME record of the domain through Cloudflare based on given action
+     * @param domain: DomainConfig object of the custom domain the record points to
+     * @param action: String descriptor of change to be made. Valid actions are ['UPSERT', 'DELETE']
+     * @param domainInfo: DomainInfo object containing info about custom domain
+     * @returns undefined, Cloudflare applies changes right away
+     */
+    public async changeRecords(domain: DomainConfig, action: string,
+                               domainInfo: DomainInfo): Promise<string | undefined> {
+        const zoneId = await this.getZoneId(domain);
+        try {
+            await this.changeRecord(zoneId, action, domain.givenDomainName, domainInfo.domainName);
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Failed to ${action} CNAME for ${domain.givenDomainName}\n${err.message}`);
+        }
+        return undefined;
+    }
+
+    /**
+     * Creates or updates the CNAME records validating a requested certificate
+     * @param records: resource records as given by the certificate's validation options
+     */
+    public async upsertValidationRecords(domain: DomainConfig, certificateArn: string, records: any[]): Promise<void> {
+        const zoneId = await this.getZoneId(domain);
+        try {
+            for (const record of records) {
+                await this.changeRecord(zoneId, "UPSERT", record.Name.replace(/\.$/, ""),
+                    record.Value.replace(/\.$/, ""));
+            }
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Failed to create the validation records for certificate ${certificateArn}\n` +
+                err.message);
+        }
+    }
+
+    /**
+     * Creates, updates or deletes the CNAME record of the given name
+     */
+    public async changeRecord(zoneId: string, action: string, name: string, content: string): Promise<void> {
+        const records = await this.request("GET",
+            `/zones/${zoneId}/dns_records?type=CNAME&name=${encodeURIComponent(name)}`);
+        const record = records[0];
+        if (action === "DELETE") {
+            if (record) {
+                await this.request("DELETE", `/zones/${zoneId}/dns_records/${record.id}`);
+            }
+            return;
+        }
+        const body = { content, name, proxied: false, ttl: 1, type: "CNAME" };
+        if (record) {
+            await this.request("PUT", `/zones/${zoneId}/dns_records/${record.id}`, body);
+        } else {
+            await this.request("POST", `/zones/${zoneId}/dns_records`, body);
+        }
+    }
+
+    /**
+     * Gets the Cloudflare zone id from user or from the closest zone enclosing the domain name
+     */
+    public async getZoneId(domain: DomainConfig): Promise<string> {
+        if (domain.hostedZoneId) {
+            this.plugin.serverless.cli.log(`Selected specific hostedZoneId ${domain.hostedZoneId}`);
+            return domain.hostedZoneId;
+        }
+        const labels = domain.givenDomainName.split(".");
+        try {
+            for (let i = 0; i < labels.length - 1; i += 1) {
+                const zones = await this.request("GET", `/zones?name=${encodeURIComponent(labels.slice(i).join("."))}`);
+                if (zones.length > 0) {
+                    return zones[0].id;
+                }
+            }
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Unable to list zones in Cloudflare.\n${err}`);
+        }
+        throw new Error(`Error: Could not find Cloudflare zone "${domain.givenDomainName}"`);
+    }
+
+    /**
+     * Sends a request to the Cloudflare API
+     * @returns the result of the request
+     */
+    public request(method: string, path: string, body?: object): Promise<any> {
+        const token = process.env.CLOUDFLARE_API_TOKEN;
+        if (!token) {
+            return Promise.reject(new Error("CLOUDFLARE_API_TOKEN must be set to manage Cloudflare records."));
+        }
+        return new Promise((resolve, reject) => {
+            const request = https.request({
+                headers: {
+                    "Authorization": `Bearer ${token}`,
+                    "Content-Type": "application/json",
+                },
+                hostname: "api.cloudflare.com",
+                method,
+                path: `/client/v4${path}`,
+            }, (response) => {
+                let data = "";
+                response.on("data", (chunk) => data += chunk);
+                response.on("end", () => {
+                    let parsed;
+                    try {
+                        parsed = JSON.parse(data);
+                    } catch (err) {
+                        reject(new Error(`Unexpected response from Cloudflare to ${method} ${path}: ${data}`));
+                        return;
+                    }
+                    if (!parsed.success) {
+                        const errors = (parsed.errors || []).map((error) => error.message).join(", ");
+                        reject(new Error(`Cloudflare rejected ${method} ${path}: ${errors}`));
+                        return;
+                    }
+                    resolve(parsed.result);
+                });
+            });
+            request.on("error", reject);
+            if (body !== undefined) {
+                request.write(JSON.stringify(body));
+            }
+            request.end();
+        });
+    }
+}
+
+export = CloudflareDnsProvider;
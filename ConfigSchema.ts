@@ -0,0 +1,172 @@
+/**
+ * JSON schema of the plugin's configuration. Serverless validates the custom section of serverless.yml against it,
+ * older Serverless versions without a config schema handler are covered by validate.
+ * Values are checked for their type only, the accepted values are checked by DomainConfig.
+ */
+
+// Flags accept the strings "true" and "false" as well
+const booleanSchema = { type: ["boolean", "string"] };
+const numberSchema = { type: ["number", "string"] };
+const stringSchema = { type: "string" };
+
+const roleSchema = {
+    additionalProperties: false,
+    properties: {
+        externalId: stringSchema,
+        roleArn: stringSchema,
+    },
+    type: "object",
+};
+
+const outputSchema = {
+    additionalProperties: false,
+    properties: {
+        export: stringSchema,
+        name: stringSchema,
+    },
+    type: "object",
+};
+
+const domainSchema = {
+    additionalProperties: false,
+    properties: {
+        acmRole: roleSchema,
+        apiType: stringSchema,
+        autoDomain: booleanSchema,
+        autoDomainWaitFor: numberSchema,
+        basePath: { type: ["string", "null"] },
+        basePathMappings: {
+            items: {
+                additionalProperties: false,
+                properties: {
+                    basePath: { type: ["string", "null"] },
+                    stage: stringSchema,
+                },
+                type: "object",
+            },
+            type: "array",
+        },
+        certificateArn: stringSchema,
+        certificateName: stringSchema,
+        createCertificate: booleanSchema,
+        createRoute53Record: { type: "boolean" },
+        dnsProvider: stringSchema,
+        domainName: stringSchema,
+        enabled: booleanSchema,
+        endpointType: stringSchema,
+        hostedZoneId: stringSchema,
+        hostedZonePrivate: { type: "boolean" },
+        managedBy: stringSchema,
+        mutualTls: {
+            additionalProperties: false,
+            properties: {
+                truststoreUri: stringSchema,
+                truststoreVersion: stringSchema,
+            },
+            required: ["truststoreUri"],
+            type: "object",
+        },
+        outputs: {
+            additionalProperties: false,
+            properties: {
+                domainName: outputSchema,
+                hostedZoneId: outputSchema,
+            },
+            type: "object",
+        },
+        regions: {
+            items: {
+                additionalProperties: false,
+                properties: {
+                    certificateArn: stringSchema,
+                    healthCheckId: stringSchema,
+                    region: stringSchema,
+                },
+                required: ["region"],
+                type: "object",
+            },
+            type: "array",
+        },
+        route53Params: {
+            additionalProperties: false,
+            properties: {
+                evaluateTargetHealth: booleanSchema,
+                failover: stringSchema,
+                healthCheckId: stringSchema,
+                routingPolicy: stringSchema,
+                setIdentifier: stringSchema,
+                weight: numberSchema,
+            },
+            type: "object",
+        },
+        route53Role: roleSchema,
+        securityPolicy: stringSchema,
+        stage: stringSchema,
+        tags: {
+            additionalProperties: { type: ["string", "number", "boolean"] },
+            type: "object",
+        },
+    },
+    required: ["domainName"],
+    type: "object",
+};
+
+const ConfigSchema = {
+
+    // Properties of the custom section owned by the plugin
+    customProperties: {
+        properties: {
+            customDomain: domainSchema,
+            customDomains: {
+                items: domainSchema,
+                type: "array",
+            },
+        },
+        type: "object",
+    },
+
+    /**
+     * Checks a value against the subset of JSON schema used by the plugin's schema
+     * @param schema: schema the value has to match
+     * @param value: the configured value, undefined values are treated as missing
+     * @param path: location of the value in serverless.yml, used in the messages
+     * @returns a message for every violation
+     */
+    validate(schema: any, value: any, path: string): string[] {
+        if (value === undefined) {
+            return [];
+        }
+        const types = [].concat(schema.type);
+        const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+        if (types.indexOf(type) === -1) {
+            return [`${path} should be of type ${types.join(" or ")}, got ${type}`];
+        }
+        const errors = [];
+        if (type === "array") {
+            value.forEach((item, index) => {
+                errors.push(...ConfigSchema.validate(schema.items, item, `${path}[${index}]`));
+            });
+        } else if (type === "object") {
+            const properties = schema.properties || {};
+            (schema.required || []).forEach((key) => {
+                if (value[key] === undefined) {
+                    errors.push(`${path}.${key} is required`);
+                }
+            });
+            Object.keys(value).forEach((key) => {
+                if (properties[key]) {
+                    errors.push(...ConfigSchema.validate(properties[key], value[key], `${path}.${key}`));
+                } else if (typeof schema.additionalProperties === "object") {
+                    errors.push(...ConfigSchema.validate(schema.additionalProperties, value[key], `${path}.${key}`));
+                } else if (schema.additionalProperties === false) {
+                    // Typos mostly get the case of a property wrong
+                    const known = Object.keys(properties).find((name) => name.toLowerCase() === key.toLowerCase());
+                    errors.push(`${path} has an unknown property ${key}` + (known ? `, did you mean ${known}?` : ""));
+                }
+            });
+        }
+        return errors;
+    },
+};
+
+export = ConfigSchema;
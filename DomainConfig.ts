@@ -0,0 +1,408 @@
+import DomainInfo = require("./DomainInfo");
+import Globals = require("./Globals");
+import {
+    AssumedRole, BasePathMapping, CustomDomain, DomainRegion, MutualTls, Route53Params, StackOutput, StackOutputs,
+} from "./types";
+
+/**
+ * Wrapper class for the configuration of a single Custom Domain
+ */
+class DomainConfig {
+
+    public givenDomainName: string;
+    public basePath: string;
+    public stage: string;
+    public basePathMappings: BasePathMapping[];
+    public certificateName: string | undefined;
+    public certificateArn: string | undefined;
+    public createRoute53Record: boolean | undefined;
+    public endpointType: string;
+    public hostedZoneId: string | undefined;
+    public hostedZonePrivate: boolean | undefined;
+    public enabled: boolean;
+    public securityPolicy: string;
+    public apiType: string;
+    public autoDomain: boolean;
+    public autoDomainWaitFor: number;
+    public createCertificate: boolean;
+    public route53Params: {
+        routingPolicy: string,
+        setIdentifier: string | undefined,
+        weight: number | undefined,
+        failover: string | undefined,
+        healthCheckId: string | undefined,
+        evaluateTargetHealth: boolean,
+    };
+    public regions: DomainRegion[];
+    public dnsProvider: string;
+    public managedBy: string;
+    public route53Role: AssumedRole | undefined;
+    public acmRole: AssumedRole | undefined;
+    public mutualTls: MutualTls | undefined;
+    public tags: { [key: string]: string };
+    public outputs: {
+        domainName: StackOutput,
+        hostedZoneId: StackOutput,
+    };
+
+    // Region of one copy of a multi-region domain, undefined for domains of the deployment region
+    public region: string | undefined;
+
+    // ACM client in the region the certificate of this domain has to live in
+    public acm: any;
+    // Route53 client of the account hosting the zone, if it is not the deployment account
+    public route53: any;
+    // API Gateway and CloudFormation clients of a multi-region copy living outside the deployment region
+    public apigateway: any;
+    public apigatewayV2: any;
+    public cloudformation: any;
+    public domainInfo: DomainInfo | undefined;
+
+    /**
+     * @param config the customDomain configuration block from serverless.yml
+     * @param defaultStage stage to map to when the configuration does not specify one
+     */
+    constructor(config: CustomDomain, defaultStage?: string) {
+        this.enabled = this.evaluateBoolean(config.enabled, true, "enablement");
+        this.autoDomain = this.evaluateBoolean(config.autoDomain, false, "autoDomain");
+        this.createCertificate = this.evaluateBoolean(config.createCertificate, false, "createCertificate");
+        this.givenDomainName = config.domainName;
+        this.hostedZonePrivate = config.hostedZonePrivate;
+        this.hostedZoneId = config.hostedZoneId;
+        this.certificateArn = config.certificateArn;
+        this.certificateName = config.certificateName;
+        this.createRoute53Record = config.createRoute53Record;
+
+        const apiTypeWithDefault = config.apiType || Globals.apiTypes.rest;
+        const apiTypeToUse = Globals.apiTypes[apiTypeWithDefault.toLowerCase()];
+        if (!apiTypeToUse) {
+            throw new Error(`${apiTypeWithDefault} is not supported apiType, use rest, http or websocket.`);
+        }
+        this.apiType = apiTypeToUse;
+
+        this.basePath = this.evaluateBasePath(config.basePath);
+
+        let stage = config.stage;
+        if (typeof stage === "undefined") {
+            stage = this.apiType === Globals.apiTypes.http ? Globals.defaultHttpStage : defaultStage;
+        }
+        this.stage = stage;
+
+        if (config.basePathMappings !== undefined && config.basePath !== undefined) {
+            throw new Error(`serverless-domain-manager: ${this.givenDomainName} configures both basePath ` +
+                "and basePathMappings, use one of them.");
+        }
+        this.basePathMappings = this.evaluateBasePathMappings(config.basePathMappings);
+        // The first mapping stands for the domain wherever a single path is shown,
+        // the stage stays the domain's as it names the stack of the API
+        this.basePath = this.basePathMappings[0].basePath;
+
+        // API Gateway v2 domain names can only be regional
+        const defaultEndpointType = this.apiType === Globals.apiTypes.rest ?
+            Globals.endpointTypes.edge : Globals.endpointTypes.regional;
+        const endpointTypeWithDefault = config.endpointType || defaultEndpointType;
+        const endpointTypeToUse = Globals.endpointTypes[endpointTypeWithDefault.toLowerCase()];
+        if (!endpointTypeToUse) {
+            throw new Error(`${endpointTypeWithDefault} is not supported endpointType, use edge or regional.`);
+        }
+        if (this.apiType !== Globals.apiTypes.rest && endpointTypeToUse !== Globals.endpointTypes.regional) {
+            throw new Error(`${endpointTypeWithDefault} is not supported endpointType for ${this.apiType} APIs, ` +
+                "use regional.");
+        }
+        this.endpointType = endpointTypeToUse;
+
+        const securityPolicyDefault = config.securityPolicy || Globals.tlsVersions.tls_1_2;
+        const tlsVersionToUse = Globals.tlsVersions[securityPolicyDefault.toLowerCase()];
+        if (!tlsVersionToUse) {
+            throw new Error(`${securityPolicyDefault} is not a supported securityPolicy, use tls_1_0 or tls_1_2.`);
+        }
+        this.securityPolicy = tlsVersionToUse;
+        this.mutualTls = this.evaluateMutualTls(config.mutualTls);
+
+        const autoDomainWaitFor = config.autoDomainWaitFor === undefined ?
+            Globals.defaultAutoDomainWaitFor : Number(config.autoDomainWaitFor);
+        if (isNaN(autoDomainWaitFor) || autoDomainWaitFor < 0) {
+            throw new Error(`serverless-domain-manager: autoDomainWaitFor must be a number of seconds, ` +
+                `got "${config.autoDomainWaitFor}"`);
+        }
+        this.autoDomainWaitFor = autoDomainWaitFor;
+
+        this.route53Params = this.evaluateRoute53Params(config.route53Params || {} as Route53Params);
+        this.regions = this.evaluateRegions(config.regions);
+        this.route53Role = this.evaluateRole(config.route53Role, "route53Role");
+        this.acmRole = this.evaluateRole(config.acmRole, "acmRole");
+
+        const dnsProviderWithDefault = config.dnsProvider || Globals.dnsProviders.route53;
+        const dnsProviderToUse = Globals.dnsProviders[dnsProviderWithDefault.toLowerCase()];
+        if (!dnsProviderToUse) {
+            throw new Error(`serverless-domain-manager: ${dnsProviderWithDefault} is not a supported dnsProvider, ` +
+                "use route53 or cloudflare.");
+        }
+        if (dnsProviderToUse !== Globals.dnsProviders.route53
+            && (config.route53Params !== undefined || this.regions.length > 0 || this.route53Role)) {
+            throw new Error(`serverless-domain-manager: route53Params, regions and route53Role need ` +
+                "dnsProvider route53.");
+        }
+        this.dnsProvider = dnsProviderToUse;
+
+        this.managedBy = this.evaluateManagedBy(config.managedBy);
+        this.outputs = this.evaluateOutputs(config.outputs || {} as StackOutputs);
+        this.tags = this.evaluateTags(config.tags);
+    }
+
+    /**
+     * Creates the copy of a multi-region domain living in the given region.
+     * Every copy owns a regional domain name and a latency record of its own.
+     */
+    public inRegion(regionConfig: DomainRegion): DomainConfig {
+        const copy: DomainConfig = Object.assign(Object.create(DomainConfig.prototype), this);
+        copy.region = regionConfig.region;
+        copy.regions = [];
+        if (regionConfig.certificateArn) {
+            copy.certificateArn = regionConfig.certificateArn;
+        }
+        copy.route53Params = Object.assign({}, this.route53Params, {
+            healthCheckId: regionConfig.healthCheckId,
+            routingPolicy: Globals.routingPolicies.latency,
+            setIdentifier: regionConfig.region,
+        });
+        return copy;
+    }
+
+    /**
+     * Validates the basepath mappings of this domain.
+     * Without a list, the domain maps its basePath to its stage.
+     */
+    private evaluateBasePathMappings(mappings: BasePathMapping[] | undefined): BasePathMapping[] {
+        if (mappings === undefined) {
+            return [{ basePath: this.basePath, stage: this.stage }];
+        }
+        if (!Array.isArray(mappings) || mappings.length === 0) {
+            throw new Error("serverless-domain-manager: basePathMappings must be a list of basepath mappings.");
+        }
+        const basePaths = [];
+        const evaluatedMappings = mappings.map((mapping) => {
+            const basePath = this.evaluateBasePath(mapping && mapping.basePath);
+            if (basePaths.indexOf(basePath) !== -1) {
+                throw new Error(`serverless-domain-manager: basePath ${basePath} is mapped twice ` +
+                    `for ${this.givenDomainName}.`);
+            }
+            basePaths.push(basePath);
+            return { basePath, stage: mapping && mapping.stage !== undefined ? mapping.stage : this.stage };
+        });
+        // API Gateway v1 only allows an empty base path as the single mapping of a domain
+        if (this.apiType === Globals.apiTypes.rest && basePaths.length > 1 && basePaths.indexOf("(none)") !== -1) {
+            throw new Error(`serverless-domain-manager: the empty basePath of ${this.givenDomainName} ` +
+                "cannot be mapped along with other base paths for REST APIs.");
+        }
+        return evaluatedMappings;
+    }
+
+    /**
+     * Returns the given base path, or (none) for the empty base path
+     */
+    private evaluateBasePath(basePath: string | undefined): string {
+        if (basePath == null || basePath.trim() === "") {
+            return "(none)";
+        }
+        return basePath;
+    }
+
+    /**
+     * Validates who manages the domain. CloudFormation can only manage what fits into the service's stack:
+     * the domain of a REST API in the deployment region with its Route53 records.
+     */
+    private evaluateManagedBy(managedBy: string | undefined): string {
+        const managedByToUse = Globals.managedBy[(managedBy || Globals.managedBy.plugin).toLowerCase()];
+        if (!managedByToUse) {
+            throw new Error(`serverless-domain-manager: ${managedBy} is not a supported managedBy, ` +
+                "use plugin or cloudformation.");
+        }
+        if (managedByToUse === Globals.managedBy.cloudformation) {
+            if (this.apiType !== Globals.apiTypes.rest) {
+                throw new Error(`serverless-domain-manager: managedBy cloudformation supports REST APIs only, ` +
+                    `${this.givenDomainName} belongs to a ${this.apiType} API.`);
+            }
+            if (this.regions.length > 0 || this.dnsProvider !== Globals.dnsProviders.route53 || this.autoDomain
+                || this.route53Role) {
+                throw new Error(`serverless-domain-manager: ${this.givenDomainName} is managed by cloudformation, ` +
+                    "which does not support regions, autoDomain, route53Role or a dnsProvider other than route53.");
+            }
+        }
+        return managedByToUse;
+    }
+
+    /**
+     * Validates the tags of the domain, YAML numbers and booleans become strings
+     */
+    private evaluateTags(tags: { [key: string]: string } | undefined): { [key: string]: string } {
+        if (tags === undefined) {
+            return {};
+        }
+        if (!tags || typeof tags !== "object" || Array.isArray(tags)) {
+            throw new Error("serverless-domain-manager: tags must be a map of tag names to values.");
+        }
+        const evaluated = {};
+        Object.keys(tags).forEach((key) => {
+            evaluated[key] = String(tags[key]);
+        });
+        return evaluated;
+    }
+
+    /**
+     * Validates the truststore clients of the domain authenticate against.
+     * API Gateway supports mutual TLS for regional domains with TLS 1.2 only.
+     */
+    private evaluateMutualTls(mutualTls: MutualTls | undefined): MutualTls | undefined {
+        if (mutualTls === undefined) {
+            return undefined;
+        }
+        if (!mutualTls || typeof mutualTls.truststoreUri !== "string" || !mutualTls.truststoreUri.startsWith("s3://")) {
+            throw new Error("serverless-domain-manager: mutualTls.truststoreUri must be the s3:// URI of " +
+                `a truststore, got "${mutualTls && mutualTls.truststoreUri}"`);
+        }
+        if (this.endpointType !== Globals.endpointTypes.regional) {
+            throw new Error(`serverless-domain-manager: mutualTls of ${this.givenDomainName} requires ` +
+                "endpointType regional.");
+        }
+        if (this.securityPolicy !== Globals.tlsVersions.tls_1_2) {
+            throw new Error(`serverless-domain-manager: mutualTls of ${this.givenDomainName} requires ` +
+                "securityPolicy tls_1_2.");
+        }
+        return { truststoreUri: mutualTls.truststoreUri, truststoreVersion: mutualTls.truststoreVersion };
+    }
+
+    /**
+     * Validates a role the plugin assumes to reach resources of another account
+     * @param name name of the property used in the error message
+     */
+    private evaluateRole(role: AssumedRole | undefined, name: string): AssumedRole | undefined {
+        if (role === undefined) {
+            return undefined;
+        }
+        if (!role || typeof role.roleArn !== "string" || !role.roleArn.startsWith("arn:")) {
+            throw new Error(`serverless-domain-manager: ${name}.roleArn must be the ARN of a role, ` +
+                `got "${role && role.roleArn}"`);
+        }
+        return { externalId: role.externalId, roleArn: role.roleArn };
+    }
+
+    /**
+     * Validates the names and export names of the stack outputs of this domain.
+     * Output names default to the plugin's own names, which depend on the position of the domain.
+     */
+    private evaluateOutputs(outputs: StackOutputs) {
+        const evaluateOutput = (key: string, output: StackOutput = {} as StackOutput): StackOutput => {
+            if (output.name !== undefined && !/^[A-Za-z0-9]+$/.test(output.name)) {
+                throw new Error(`serverless-domain-manager: outputs.${key}.name must be alphanumeric, ` +
+                    `got "${output.name}"`);
+            }
+            return { export: output.export, name: output.name };
+        };
+        return {
+            domainName: evaluateOutput("domainName", outputs.domainName),
+            hostedZoneId: evaluateOutput("hostedZoneId", outputs.hostedZoneId),
+        };
+    }
+
+    /**
+     * Validates the regions a multi-region domain is deployed to
+     */
+    private evaluateRegions(regions: DomainRegion[] | undefined): DomainRegion[] {
+        if (regions === undefined) {
+            return [];
+        }
+        if (!Array.isArray(regions) || regions.length === 0) {
+            throw new Error("serverless-domain-manager: regions must be a list of region configurations.");
+        }
+        if (this.endpointType !== Globals.endpointTypes.regional) {
+            throw new Error(`serverless-domain-manager: regions of ${this.givenDomainName} require ` +
+                "endpointType regional.");
+        }
+        if (this.route53Params.routingPolicy !== Globals.routingPolicies.simple) {
+            throw new Error(`serverless-domain-manager: regions of ${this.givenDomainName} are routed by latency, ` +
+                "remove route53Params.routingPolicy.");
+        }
+        const seen = [];
+        regions.forEach((regionConfig) => {
+            if (!regionConfig || typeof regionConfig.region !== "string") {
+                throw new Error(`serverless-domain-manager: every entry of the regions of ${this.givenDomainName} ` +
+                    "needs a region.");
+            }
+            if (seen.indexOf(regionConfig.region) !== -1) {
+                throw new Error(`serverless-domain-manager: region ${regionConfig.region} is listed twice ` +
+                    `for ${this.givenDomainName}.`);
+            }
+            seen.push(regionConfig.region);
+        });
+        return regions;
+    }
+
+    /**
+     * Validates the route53Params block describing how the alias records of this domain are routed
+     */
+    private evaluateRoute53Params(params: Route53Params) {
+        const routingPolicy = Globals.routingPolicies[(params.routingPolicy || Globals.routingPolicies.simple)
+            .toLowerCase()];
+        if (!routingPolicy) {
+            throw new Error(`serverless-domain-manager: ${params.routingPolicy} is not a supported routingPolicy, ` +
+                "use simple, weighted, latency or failover.");
+        }
+        if (routingPolicy !== Globals.routingPolicies.simple && !params.setIdentifier) {
+            throw new Error(`serverless-domain-manager: route53Params.setIdentifier is required for ` +
+                `${routingPolicy} routing.`);
+        }
+
+        let weight;
+        if (routingPolicy === Globals.routingPolicies.weighted) {
+            weight = Number(params.weight);
+            if (params.weight === undefined || !Number.isInteger(weight) || weight < 0 || weight > 255) {
+                throw new Error("serverless-domain-manager: route53Params.weight must be a number between " +
+                    `0 and 255 for weighted routing, got "${params.weight}"`);
+            }
+        }
+
+        let failover;
+        if (routingPolicy === Globals.routingPolicies.failover) {
+            failover = Globals.failoverTypes[(params.failover || "").toLowerCase()];
+            if (!failover) {
+                throw new Error(`serverless-domain-manager: route53Params.failover must be primary or secondary ` +
+                    `for failover routing, got "${params.failover}"`);
+            }
+        }
+
+        return {
+            evaluateTargetHealth: this.evaluateBoolean(params.evaluateTargetHealth, false, "evaluateTargetHealth"),
+            failover,
+            healthCheckId: params.healthCheckId,
+            routingPolicy,
+            setIdentifier: params.setIdentifier,
+            weight,
+        };
+    }
+
+    /**
+     * Evaluates a boolean flag of the domain configuration, e.g. whether this domain is enabled.
+     *
+     * If the property's value is undefined, the given default value is assumed.
+     * If the property's value is provided, this should be boolean, otherwise an exception is thrown.
+     * @param value the configured value
+     * @param defaultValue value to use when nothing is configured
+     * @param name name of the flag used in the error message
+     */
+    private evaluateBoolean(value: boolean | string | undefined, defaultValue: boolean, name: string): boolean {
+        if (value === undefined) {
+            return defaultValue;
+        }
+        if (typeof value === "boolean") {
+            return value;
+        } else if (typeof value === "string" && value === "true") {
+            return true;
+        } else if (typeof value === "string" && value === "false") {
+            return false;
+        }
+        throw new Error(`serverless-domain-manager: Ambiguous ${name} boolean: "${value}"`);
+    }
+}
+
+export = DomainConfig;
@@ -6,6 +6,14 @@ class DomainInfo {
     public domainName: string;
     public hostedZoneId: string;
     public securityPolicy: string;
+    public endpointType: string;
+    public certificateArn: string;
+    public domainNameStatus: string;
+    public mutualTls: {
+        truststoreUri: string,
+        truststoreVersion: string | undefined,
+        truststoreWarnings: string[],
+    } | undefined;
 
     /**
      * Sometimes, the getDomainName call doesn't return either a distributionHostedZoneId or a regionalHostedZoneId.
@@ -17,12 +25,42 @@ class DomainInfo {
     private defaultHostedZoneId: string = "Z2FDTNDATAQYW2";
     private defaultSecurityPolicy: string = "TLS_1_2";
 
+    /**
+     * @param data response of either the API Gateway v1 or the API Gateway v2 getDomainName/createDomainName calls
+     */
     constructor(data: any) {
-        this.domainName = data.distributionDomainName || data.regionalDomainName;
+        // API Gateway v2 nests the endpoint details inside a list of configurations
+        const v2Config = data.DomainNameConfigurations && data.DomainNameConfigurations[0] || {};
+
+        this.domainName = data.distributionDomainName ||
+            data.regionalDomainName ||
+            v2Config.ApiGatewayDomainName;
         this.hostedZoneId = data.distributionHostedZoneId ||
             data.regionalHostedZoneId ||
+            v2Config.HostedZoneId ||
             this.defaultHostedZoneId;
-        this.securityPolicy = data.securityPolicy || this.defaultSecurityPolicy;
+        this.securityPolicy = data.securityPolicy ||
+            v2Config.SecurityPolicy ||
+            this.defaultSecurityPolicy;
+        this.endpointType = data.endpointConfiguration && data.endpointConfiguration.types[0] ||
+            v2Config.EndpointType;
+        this.certificateArn = data.certificateArn ||
+            data.regionalCertificateArn ||
+            v2Config.CertificateArn;
+        this.domainNameStatus = data.domainNameStatus || v2Config.DomainNameStatus;
+        if (data.mutualTlsAuthentication) {
+            this.mutualTls = {
+                truststoreUri: data.mutualTlsAuthentication.truststoreUri,
+                truststoreVersion: data.mutualTlsAuthentication.truststoreVersion,
+                truststoreWarnings: data.mutualTlsAuthentication.truststoreWarnings || [],
+            };
+        } else if (data.MutualTlsAuthentication) {
+            this.mutualTls = {
+                truststoreUri: data.MutualTlsAuthentication.TruststoreUri,
+                truststoreVersion: data.MutualTlsAuthentication.TruststoreVersion,
+                truststoreWarnings: data.MutualTlsAuthentication.TruststoreWarnings || [],
+            };
+        }
     }
 }
 
@@ -0,0 +1,71 @@
+/**
+ * Constants shared between the plugin and its domain configurations
+ */
+const Globals = {
+
+    // Logical ids of the APIs Serverless deploys, keyed by api type
+    apiLogicalResourceIds: {
+        HTTP: "HttpApi",
+        REST: "ApiGatewayRestApi",
+        WEBSOCKET: "WebsocketsApi",
+    },
+
+    apiTypes: {
+        http: "HTTP",
+        rest: "REST",
+        websocket: "WEBSOCKET",
+    },
+
+    // Certificate statuses worth considering, in order of preference
+    certStatuses: ["ISSUED", "PENDING_VALIDATION", "INACTIVE"],
+
+    // Seconds to wait for a requested certificate to be validated
+    certificateWaitFor: 1800,
+
+    // Seconds to wait for an automatically created domain to become available
+    defaultAutoDomainWaitFor: 120,
+
+    // Seconds create_domain --wait waits for a domain and its records, new domains may take up to 40 minutes
+    defaultCreateDomainWaitFor: 2400,
+
+    // Stage HTTP APIs deployed by Serverless are served from
+    defaultHttpStage: "$default",
+
+    dnsProviders: {
+        cloudflare: "cloudflare",
+        route53: "route53",
+    },
+
+    // Seconds between two checks of a domain's status
+    domainPollInterval: 10,
+
+    endpointTypes: {
+        edge: "EDGE",
+        regional: "REGIONAL",
+    },
+
+    failoverTypes: {
+        primary: "PRIMARY",
+        secondary: "SECONDARY",
+    },
+
+    // Who creates and deletes a domain, its basepath mappings and its records
+    managedBy: {
+        cloudformation: "cloudformation",
+        plugin: "plugin",
+    },
+
+    routingPolicies: {
+        failover: "failover",
+        latency: "latency",
+        simple: "simple",
+        weighted: "weighted",
+    },
+
+    tlsVersions: {
+        tls_1_0: "TLS_1_0",
+        tls_1_2: "TLS_1_2",
+    },
+};
+
+export = Globals;
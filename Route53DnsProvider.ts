@@ -0,0 +1,173 @@
+import DomainConfig = require("./DomainConfig");
+import DomainInfo = require("./DomainInfo");
+import Globals = require("./Globals");
+import ServerlessCustomDomain = require("./index");
+import { DnsProvider } from "./types";
+
+/**
+ * Manages the records of custom domains in Route53, the default DNS provider
+ */
+class Route53DnsProvider implements DnsProvider {
+
+    public plugin: ServerlessCustomDomain;
+
+    constructor(plugin: ServerlessCustomDomain) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Change A and AAAA Alias records through Route53 based on given action
+     * @param domain: DomainConfig object of the custom domain the records point to
+     * @param action: String descriptor of change to be made. Valid actions are ['UPSERT', 'DELETE']
+     * @param domainInfo: DomainInfo object containing info about custom domain
+     * @returns the id of the Route53 change
+     */
+    public async changeRecords(domain: DomainConfig, action: string,
+                               domainInfo: DomainInfo): Promise<string | undefined> {
+        // Set up parameters
+        const route53HostedZoneId = await this.getHostedZoneId(domain);
+        const Changes = ["A", "AAAA"].map((Type) => ({
+                Action: action,
+                ResourceRecordSet: Object.assign({
+                    AliasTarget: {
+                        DNSName: domainInfo.domainName,
+                        EvaluateTargetHealth: domain.route53Params.evaluateTargetHealth,
+                        HostedZoneId: domainInfo.hostedZoneId,
+                    },
+                    Name: domain.givenDomainName,
+                    Type,
+                }, this.getRoutingParams(domain)),
+        }));
+        const params = {
+            ChangeBatch: {
+                Changes,
+                Comment: "Record created by serverless-domain-manager",
+            },
+            HostedZoneId: route53HostedZoneId,
+        };
+        // Make API call
+        try {
+            const response = await this.plugin.getRoute53(domain).changeResourceRecordSets(params).promise();
+            return response.ChangeInfo && response.ChangeInfo.Id;
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Failed to ${action} A Alias for ${domain.givenDomainName}\n`);
+        }
+    }
+
+    /**
+     * Creates or updates the CNAME records validating a requested certificate
+     * @param records: resource records as given by the certificate's validation options
+     */
+    public async upsertValidationRecords(domain: DomainConfig, certificateArn: string, records: any[]): Promise<void> {
+        const route53HostedZoneId = await this.getHostedZoneId(domain);
+        const params = {
+            ChangeBatch: {
+                Changes: records.map((record) => ({
+                    Action: "UPSERT",
+                    ResourceRecordSet: {
+                        Name: record.Name,
+                        ResourceRecords: [{ Value: record.Value }],
+                        TTL: 300,
+                        Type: record.Type,
+                    },
+                })),
+                Comment: "Certificate validation record created by serverless-domain-manager",
+            },
+            HostedZoneId: route53HostedZoneId,
+        };
+        try {
+            await this.plugin.getRoute53(domain).changeResourceRecordSets(params).promise();
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Failed to create the validation records for certificate ${certificateArn}\n`);
+        }
+    }
+
+    /**
+     * Gets the routing properties of the domain's alias records, so that every deployment
+     * of a weighted, latency or failover domain owns a record set of its own
+     */
+    public getRoutingParams(domain: DomainConfig): object {
+        const params = domain.route53Params;
+        const routingParams: any = {};
+        if (params.routingPolicy !== Globals.routingPolicies.simple) {
+            routingParams.SetIdentifier = params.setIdentifier;
+        }
+        if (params.routingPolicy === Globals.routingPolicies.weighted) {
+            routingParams.Weight = params.weight;
+        } else if (params.routingPolicy === Globals.routingPolicies.latency) {
+            routingParams.Region = domain.region || this.plugin.serverless.providers.aws.getRegion();
+        } else if (params.routingPolicy === Globals.routingPolicies.failover) {
+            routingParams.Failover = params.failover;
+        }
+        if (params.healthCheckId) {
+            routingParams.HealthCheckId = params.healthCheckId;
+        }
+        return routingParams;
+    }
+
+    /**
+     * Gets Route53 HostedZoneId from user or from AWS
+     */
+    public async getHostedZoneId(domain: DomainConfig): Promise<string> {
+        if (domain.hostedZoneId) {
+            this.plugin.serverless.cli.log(`Selected specific hostedZoneId ${domain.hostedZoneId}`);
+            return domain.hostedZoneId;
+        }
+
+        const filterZone = domain.hostedZonePrivate !== undefined;
+        if (filterZone && domain.hostedZonePrivate) {
+            this.plugin.serverless.cli.log("Filtering to only private zones.");
+        } else if (filterZone && !domain.hostedZonePrivate) {
+            this.plugin.serverless.cli.log("Filtering to only public zones.");
+        }
+
+        const givenDomainNameReverse = domain.givenDomainName.split(".").reverse();
+
+        try {
+            const route53 = this.plugin.getRoute53(domain);
+            const hostedZones = await this.plugin.getAllPages((marker) => route53.listHostedZones(
+                { Marker: marker }).promise(), "HostedZones", "NextMarker");
+            const targetHostedZone = hostedZones
+                .filter((hostedZone) => {
+                    let hostedZoneName;
+                    if (hostedZone.Name.endsWith(".")) {
+                        hostedZoneName = hostedZone.Name.slice(0, -1);
+                    } else {
+                        hostedZoneName = hostedZone.Name;
+                    }
+                    if (!filterZone || domain.hostedZonePrivate === hostedZone.Config.PrivateZone) {
+                        const hostedZoneNameReverse = hostedZoneName.split(".").reverse();
+
+                        if (givenDomainNameReverse.length === 1
+                            || (givenDomainNameReverse.length >= hostedZoneNameReverse.length)) {
+                            for (let i = 0; i < hostedZoneNameReverse.length; i += 1) {
+                                if (givenDomainNameReverse[i] !== hostedZoneNameReverse[i]) {
+                                    return false;
+                                }
+                            }
+                            return true;
+                        }
+                    }
+                    return false;
+                })
+                .sort((zone1, zone2) => zone2.Name.length - zone1.Name.length)
+                .shift();
+
+            if (targetHostedZone) {
+                const hostedZoneId = targetHostedZone.Id;
+                // Extracts the hostzone Id
+                const startPos = hostedZoneId.indexOf("e/") + 2;
+                const endPos = hostedZoneId.length;
+                return hostedZoneId.substring(startPos, endPos);
+            }
+        } catch (err) {
+            this.plugin.logIfDebug(err);
+            throw new Error(`Error: Unable to list hosted zones in Route53.\n${err}`);
+        }
+        throw new Error(`Error: Could not find hosted zone "${domain.givenDomainName}"`);
+    }
+}
+
+export = Route53DnsProvider;
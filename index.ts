@@ -1,28 +1,24 @@
 "use strict";
 
 import chalk from "chalk";
+import readline = require("readline");
+import CloudflareDnsProvider = require("./CloudflareDnsProvider");
+import ConfigSchema = require("./ConfigSchema");
+import DomainConfig = require("./DomainConfig");
 import DomainInfo = require("./DomainInfo");
-import { ServerlessInstance, ServerlessOptions } from "./types";
-
-const endpointTypes = {
-    edge: "EDGE",
-    regional: "REGIONAL",
-};
-
-const tlsVersions = {
-    tls_1_0: "TLS_1_0",
-    tls_1_2: "TLS_1_2",
-};
-
-const certStatuses = ["PENDING_VALIDATION", "ISSUED", "INACTIVE"];
+import Globals = require("./Globals");
+import Route53DnsProvider = require("./Route53DnsProvider");
+import {
+    AssumedRole, BasePathMapping, CustomDomain, DnsProvider, DomainMapping, ServerlessInstance, ServerlessOptions,
+    StackOutput,
+} from "./types";
 
 class ServerlessCustomDomain {
 
     // AWS SDK resources
     public apigateway: any;
+    public apigatewayV2: any;
     public route53: any;
-    public acm: any;
-    public acmRegion: string;
     public cloudformation: any;
 
     // Serverless specific properties
@@ -33,16 +29,20 @@ class ServerlessCustomDomain {
 
     // Domain Manager specific properties
     public enabled: boolean;
-    public givenDomainName: string;
-    public hostedZonePrivate: boolean;
-    public basePath: string;
-    private endpointType: string;
-    private stage: string;
-    private securityPolicy: string;
+    public domains: DomainConfig[];
+    public dnsProviders: { cloudflare: CloudflareDnsProvider, route53: Route53DnsProvider };
 
     constructor(serverless: ServerlessInstance, options: ServerlessOptions) {
         this.serverless = serverless;
         this.options = options;
+        this.dnsProviders = {
+            cloudflare: new CloudflareDnsProvider(this),
+            route53: new Route53DnsProvider(this),
+        };
+
+        if (serverless.configSchemaHandler && serverless.configSchemaHandler.defineCustomProperties) {
+            serverless.configSchemaHandler.defineCustomProperties(ConfigSchema.customProperties);
+        }
 
         this.commands = {
             create_domain: {
@@ -50,22 +50,91 @@ class ServerlessCustomDomain {
                     "create",
                     "initialize",
                 ],
-                usage: "Creates a domain using the domain name defined in the serverless file",
+                options: {
+                    "wait": {
+                        usage: "Waits until the domains are available and their Route53 records are in sync",
+                    },
+                    "wait-timeout": {
+                        usage: "Number of seconds to wait for each domain when using --wait (default: 2400)",
+                    },
+                },
+                usage: "Creates the domains using the domain names defined in the serverless file",
             },
             delete_domain: {
                 lifecycleEvents: [
                     "delete",
                     "initialize",
                 ],
-                usage: "Deletes a domain using the domain name defined in the serverless file",
+                options: {
+                    force: {
+                        usage: "Deletes the domains without confirmation, even if other APIs are still mapped to them",
+                    },
+                },
+                usage: "Deletes the domains using the domain names defined in the serverless file",
+            },
+            deploy: {
+                options: {
+                    "force-basepath-takeover": {
+                        usage: "Takes over the configured base paths of the domains from the APIs they are mapped to",
+                    },
+                },
+            },
+            domain_info: {
+                lifecycleEvents: [
+                    "info",
+                    "initialize",
+                ],
+                options: {
+                    json: {
+                        usage: "Prints the information as a JSON document",
+                    },
+                },
+                usage: "Prints the details and all basepath mappings of the domains defined in the serverless file",
+            },
+            info: {
+                options: {
+                    json: {
+                        usage: "Prints the domain summary as a JSON document",
+                    },
+                },
+            },
+            list_domains: {
+                lifecycleEvents: [
+                    "list",
+                    "initialize",
+                ],
+                options: {
+                    json: {
+                        usage: "Prints the domains as a JSON document",
+                    },
+                },
+                usage: "Lists all custom domains of the region with the APIs and stacks their basepaths are mapped to",
+            },
+            remove: {
+                options: {
+                    "force-basepath-takeover": {
+                        usage: "Removes the configured basepath mappings of the domains even if other APIs own them",
+                    },
+                },
+            },
+            update_domain: {
+                lifecycleEvents: [
+                    "update",
+                    "initialize",
+                ],
+                usage: "Updates the existing domains to match the configuration defined in the serverless file",
             },
         };
         this.hooks = {
             "after:deploy:deploy": this.hookWrapper.bind(this, this.setupBasePathMapping),
             "after:info:info": this.hookWrapper.bind(this, this.domainSummary),
+            "before:package:finalize": this.hookWrapper.bind(this, this.addResources),
             "before:remove:remove": this.hookWrapper.bind(this, this.removeBasePathMapping),
             "create_domain:create": this.hookWrapper.bind(this, this.createDomain),
             "delete_domain:delete": this.hookWrapper.bind(this, this.deleteDomain),
+            "domain_info:info": this.hookWrapper.bind(this, this.domainInfo),
+            "list_domains:list": this.hookWrapper.bind(this, this.listDomains),
+            "update_domain:update": this.hookWrapper.bind(this, this.updateDomain),
         };
     }
 
@@ -84,238 +153,1042 @@ class ServerlessCustomDomain {
     }
 
     /**
-     * Lifecycle function to create a domain
-     * Wraps creating a domain and resource record set
+     * Lifecycle function to create the domains
+     * Wraps creating a domain and resource record set for every configured domain
      */
     public async createDomain(): Promise<void> {
-        let domainInfo;
-        try {
-            domainInfo = await this.getDomainInfo();
-        } catch (err) {
-            if (err.message !== `Error: ${this.givenDomainName} not found.`) {
-                throw err;
+        let waitFor;
+        if (this.options.wait) {
+            waitFor = this.options["wait-timeout"] === undefined ?
+                Globals.defaultCreateDomainWaitFor : Number(this.options["wait-timeout"]);
+            if (isNaN(waitFor) || waitFor < 0) {
+                throw new Error(`serverless-domain-manager: --wait-timeout must be a number of seconds, ` +
+                    `got "${this.options["wait-timeout"]}"`);
             }
         }
-        if (!domainInfo) {
-            const certArn = await this.getCertArn();
-            domainInfo = await this.createCustomDomain(certArn);
-            await this.changeResourceRecordSet("UPSERT", domainInfo);
-            this.serverless.cli.log(
-                `Custom domain ${this.givenDomainName} was created.
-            New domains may take up to 40 minutes to be initialized.`,
-            );
-        } else {
-            this.serverless.cli.log(`Custom domain ${this.givenDomainName} already exists.`);
-        }
+        await this.forEachDomain(async (domain) => {
+            if (this.skipManagedByCloudFormation(domain)) {
+                return;
+            }
+            const changeId = await this.createDomainIfMissing(domain);
+            if (waitFor !== undefined) {
+                await this.waitForDomainAvailable(domain, waitFor);
+                if (changeId) {
+                    await this.waitForRecordSync(domain, changeId, waitFor);
+                }
+                this.serverless.cli.log(`Custom domain ${domain.givenDomainName} is ready.`);
+            }
+        });
     }
 
     /**
-     * Lifecycle function to delete a domain
-     * Wraps deleting a domain and resource record set
+     * Lifecycle function to delete the domains
+     * Wraps deleting a domain and resource record set for every configured domain
      */
     public async deleteDomain(): Promise<void> {
-        let domainInfo;
+        await this.forEachDomain(async (domain) => {
+            if (this.skipManagedByCloudFormation(domain)) {
+                return;
+            }
+            let domainInfo;
+            try {
+                domainInfo = await this.getDomainInfo(domain);
+            } catch (err) {
+                if (err.message === `Error: ${domain.givenDomainName} not found.`) {
+                    this.serverless.cli.log(`Unable to delete custom domain ${domain.givenDomainName}.`);
+                    return;
+                }
+                throw err;
+            }
+            if (!await this.confirmDomainDeletion(domain)) {
+                this.serverless.cli.log(`Custom domain ${domain.givenDomainName} was not deleted.`);
+                return;
+            }
+            await this.deleteCustomDomain(domain);
+            await this.changeResourceRecordSet(domain, "DELETE", domainInfo);
+            this.serverless.cli.log(`Custom domain ${domain.givenDomainName} was deleted.`);
+        });
+    }
+
+    /**
+     * Deletes a domain whose creation failed halfway, so the next run creates it from scratch
+     */
+    public async rollbackCustomDomain(domain: DomainConfig): Promise<void> {
+        this.serverless.cli.log(`Deleting custom domain ${domain.givenDomainName} again, ` +
+            "as its DNS records could not be created.");
         try {
-            domainInfo = await this.getDomainInfo();
+            await this.deleteCustomDomain(domain);
         } catch (err) {
-            if (err.message === `Error: ${this.givenDomainName} not found.`) {
-                this.serverless.cli.log(`Unable to delete custom domain ${this.givenDomainName}.`);
-                return;
+            this.logIfDebug(err);
+            this.serverless.cli.log(`Unable to delete custom domain ${domain.givenDomainName}, ` +
+                "delete it with delete_domain --force before creating it again.");
+        }
+    }
+
+    /**
+     * Lists the mappings left on the domain and asks whether to delete it.
+     * Fails while other APIs are still mapped to the domain, --force skips both checks.
+     */
+    public async confirmDomainDeletion(domain: DomainConfig): Promise<boolean> {
+        const mappings = await this.getAllMappings(domain);
+        if (mappings.length > 0) {
+            this.serverless.cli.log(`Custom domain ${domain.givenDomainName} still has basepath mappings:`);
+            mappings.forEach((mapping) => {
+                this.serverless.cli.log(`  ${mapping.basePath} -> ${mapping.apiId} (${mapping.stage})`);
+            });
+        }
+        if (mappings.length > 0 && !this.options.force) {
+            let apiId;
+            try {
+                // Copies in other regions are mapped to the service's API in their own region
+                apiId = await this.getApiId(domain);
+            } catch (err) {
+                // Without a stack every mapping belongs to another API
+                this.logIfDebug(err);
+            }
+            if (mappings.some((mapping) => mapping.apiId !== apiId)) {
+                throw new Error(`Error: Other APIs are still mapped to ${domain.givenDomainName}. ` +
+                    "Use --force to delete it anyway.\n");
             }
-            throw err;
         }
-        await this.deleteCustomDomain();
-        await this.changeResourceRecordSet("DELETE", domainInfo);
-        this.serverless.cli.log(`Custom domain ${this.givenDomainName} was deleted.`);
+        return this.options.force ||
+            await this.confirm(`Delete custom domain ${domain.givenDomainName} and its DNS records?`);
     }
 
     /**
-     * Lifecycle function to create basepath mapping
-     * Wraps creation of basepath mapping and adds domain name info as output to cloudformation stack
+     * Asks a yes or no question on the terminal
      */
-    public async setupBasePathMapping(): Promise<void> {
-        // check if basepathmapping exists
-        const restApiId = await this.getRestApiId();
-        const currentBasePath = await this.getBasePathMapping(restApiId);
-        // if basepath that matches restApiId exists, update; else, create
-        if (!currentBasePath) {
-            await this.createBasePathMapping(restApiId);
-        } else {
-            await this.updateBasePathMapping(currentBasePath);
+    public async confirm(question: string): Promise<boolean> {
+        if (!process.stdin.isTTY) {
+            throw new Error("Error: Unable to ask for confirmation without a terminal, use --force instead.\n");
         }
-        const domainInfo = await this.getDomainInfo();
-        this.addOutputs(domainInfo);
-        await this.printDomainSummary(domainInfo);
+        const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+        const answer = await new Promise<string>((resolve) => prompt.question(`${question} (y/N) `, resolve));
+        prompt.close();
+        return /^y(es)?$/i.test(answer.trim());
     }
 
     /**
-     * Lifecycle function to delete basepath mapping
-     * Wraps deletion of basepath mapping
+     * Lifecycle function to update the domains
+     * Reconciles certificate, security policy and endpoint type of every existing domain with its configuration
+     * and points the resource record set to the new target if it changed
+     */
+    public async updateDomain(): Promise<void> {
+        await this.forEachDomain(async (domain) => {
+            if (this.skipManagedByCloudFormation(domain)) {
+                return;
+            }
+            const domainInfo = await this.getDomainInfo(domain);
+            // An endpoint type change needs a certificate from the region of the new endpoint type
+            let certificateArn;
+            if (domain.certificateArn || domain.certificateName || domainInfo.endpointType !== domain.endpointType) {
+                certificateArn = await this.getCertArn(domain);
+            }
+            const updatedDomainInfo = await this.updateCustomDomain(domain, domainInfo, certificateArn);
+            await this.tagCustomDomain(domain);
+            if (!updatedDomainInfo) {
+                this.serverless.cli.log(`Custom domain ${domain.givenDomainName} is up to date.`);
+                return;
+            }
+            if (updatedDomainInfo.domainName !== domainInfo.domainName
+                || updatedDomainInfo.hostedZoneId !== domainInfo.hostedZoneId) {
+                await this.changeResourceRecordSet(domain, "UPSERT", updatedDomainInfo);
+            }
+            this.serverless.cli.log(`Custom domain ${domain.givenDomainName} was updated.`);
+        });
+    }
+
+    /**
+     * Lifecycle function to create basepath mappings
+     * Wraps creation of basepath mappings and prints the domain summary
+     */
+    public async setupBasePathMapping(): Promise<void> {
+        await this.forEachDomain(async (domain) => {
+            if (!this.isInDeployRegion(domain)) {
+                // The API only exists in the deployment region, the other regions are only summarized
+                try {
+                    domain.domainInfo = await this.getDomainInfo(domain);
+                } catch (err) {
+                    this.logIfDebug(err);
+                }
+                return;
+            }
+            if (domain.managedBy === Globals.managedBy.cloudformation) {
+                // The stack already contains the domain, its mappings and its records
+                domain.domainInfo = await this.getDomainInfo(domain);
+                return;
+            }
+            if (domain.autoDomain) {
+                await this.createDomainIfMissing(domain);
+                await this.waitForDomainAvailable(domain);
+            }
+            const apiId = await this.getApiId(domain);
+            await this.takeOverBasePaths(domain, apiId);
+            if (domain.apiType === Globals.apiTypes.rest) {
+                await this.reconcileBasePathMappings(domain, apiId);
+            } else {
+                await this.reconcileApiMappings(domain, apiId);
+            }
+            domain.domainInfo = await this.getDomainInfo(domain);
+        });
+        this.printDomainSummary();
+    }
+
+    /**
+     * Lifecycle function to delete basepath mappings
+     * Wraps deletion of basepath mapping for every configured domain
      */
     public async removeBasePathMapping(): Promise<void> {
-        await this.deleteBasePathMapping();
+        await this.forEachDomain(async (domain) => {
+            // Removing the stack removes the domains it manages
+            if (!this.isInDeployRegion(domain) || domain.managedBy === Globals.managedBy.cloudformation) {
+                return;
+            }
+            const apiId = await this.getApiId(domain);
+            if (domain.apiType === Globals.apiTypes.rest) {
+                const currentMappings = await this.getAllMappings(domain);
+                for (const mapping of domain.basePathMappings) {
+                    const currentMapping = currentMappings.find((current) => current.basePath === mapping.basePath);
+                    if (!currentMapping) {
+                        this.serverless.cli.log(`No basepath mapping ${mapping.basePath} to remove for ` +
+                            `${domain.givenDomainName}.`);
+                        continue;
+                    }
+                    if (currentMapping.apiId !== apiId) {
+                        if (!this.options["force-basepath-takeover"]) {
+                            throw new Error(`Error: Basepath mapping ${mapping.basePath} of ` +
+                                `${domain.givenDomainName} belongs to API ${currentMapping.apiId}, not to ${apiId}. ` +
+                                "Use --force-basepath-takeover to remove it anyway.\n");
+                        }
+                        this.serverless.cli.log(`Removing basepath mapping ${mapping.basePath} of ` +
+                            `${domain.givenDomainName} owned by API ${currentMapping.apiId}.`);
+                    }
+                    await this.deleteBasePathMapping(domain, mapping.basePath);
+                }
+                return;
+            }
+            const currentApiMappings = await this.getApiMappings(domain, apiId);
+            if (currentApiMappings.length === 0) {
+                this.serverless.cli.log(`No API mapping to remove for ${domain.givenDomainName}.`);
+                return;
+            }
+            for (const apiMapping of currentApiMappings) {
+                await this.deleteApiMapping(domain, apiMapping);
+            }
+        });
     }
 
     /**
      * Lifecycle function to print domain summary
-     * Wraps printing of all domain manager related info
+     * Wraps printing of all domain manager related info, as JSON with --json
      */
     public async domainSummary(): Promise<void> {
-        const domainInfo = await this.getDomainInfo();
-        if (domainInfo) {
-            this.printDomainSummary(domainInfo);
+        if (this.options.json) {
+            this.printDomainsJson(await this.getDomainsDetails());
+            return;
+        }
+        await this.forEachDomain(async (domain) => {
+            domain.domainInfo = await this.getDomainInfo(domain);
+        });
+        if (this.domains.some((domain) => domain.domainInfo !== undefined)) {
+            this.printDomainSummary();
         } else {
             this.serverless.cli.log("Unable to print Serverless Domain Manager Summary");
         }
     }
 
     /**
-     * Goes through custom domain property and initializes local variables and cloudformation template
+     * Lifecycle function to add the domains to the stack before it is uploaded
+     * Adds the resources of the domains managed by CloudFormation and the outputs of every domain
+     * to the compiled CloudFormation template
+     */
+    public async addResources(): Promise<void> {
+        const template = this.serverless.service.provider.compiledCloudFormationTemplate;
+        if (!template.Resources) {
+            template.Resources = {};
+        }
+        await this.forEachDomain(async (domain) => {
+            if (domain.managedBy === Globals.managedBy.cloudformation) {
+                Object.assign(template.Resources, await this.getResources(domain));
+            }
+        });
+        await this.addOutputs();
+    }
+
+    /**
+     * Builds the CloudFormation resources of a domain, with logical ids derived from the domain name and base path
+     */
+    public async getResources(domain: DomainConfig): Promise<object> {
+        const provider = this.serverless.service.provider;
+        const isEdge = domain.endpointType === Globals.endpointTypes.edge;
+        const certArn = await this.getCertArn(domain);
+        const domainNameId = this.getDomainNameResourceId(domain);
+        const tags = this.getTags(domain);
+        const resources = {};
+
+        resources[domainNameId] = {
+            Properties: Object.assign({
+                DomainName: domain.givenDomainName,
+                EndpointConfiguration: { Types: [domain.endpointType] },
+                SecurityPolicy: domain.securityPolicy,
+                Tags: Object.keys(tags).map((Key) => ({ Key, Value: tags[Key] })),
+            }, isEdge ? { CertificateArn: certArn } : { RegionalCertificateArn: certArn },
+                this.getMutualTlsParams(domain)),
+            Type: "AWS::ApiGateway::DomainName",
+        };
+
+        // The stage of a mapping is created by the deployment of the API, which has a new logical id every time
+        const stageResourceIds = Object.keys(provider.compiledCloudFormationTemplate.Resources || {})
+            .filter((id) => ["AWS::ApiGateway::Deployment", "AWS::ApiGateway::Stage"]
+                .indexOf(provider.compiledCloudFormationTemplate.Resources[id].Type) !== -1);
+        const restApiId = provider.apiGateway && provider.apiGateway.restApiId ?
+            provider.apiGateway.restApiId : { Ref: Globals.apiLogicalResourceIds.REST };
+        domain.basePathMappings.forEach((mapping) => {
+            resources[`${domainNameId}BasePathMapping${this.getLogicalId(mapping.basePath)}`] = {
+                DependsOn: stageResourceIds,
+                Properties: Object.assign({
+                    DomainName: { Ref: domainNameId },
+                    RestApiId: restApiId,
+                    Stage: mapping.stage,
+                }, mapping.basePath === "(none)" ? {} : { BasePath: mapping.basePath }),
+                Type: "AWS::ApiGateway::BasePathMapping",
+            };
+        });
+
+        if (domain.createRoute53Record !== false) {
+            const hostedZoneId = await this.dnsProviders.route53.getHostedZoneId(domain);
+            const target = this.getResourceTarget(domain);
+            resources[`${domainNameId}RecordSetGroup`] = {
+                Properties: {
+                    HostedZoneId: hostedZoneId,
+                    RecordSets: ["A", "AAAA"].map((Type) => Object.assign({
+                        AliasTarget: {
+                            DNSName: target.domainName,
+                            EvaluateTargetHealth: domain.route53Params.evaluateTargetHealth,
+                            HostedZoneId: target.hostedZoneId,
+                        },
+                        Name: domain.givenDomainName,
+                        Type,
+                    }, this.dnsProviders.route53.getRoutingParams(domain))),
+                },
+                Type: "AWS::Route53::RecordSetGroup",
+            };
+        }
+        return resources;
+    }
+
+    /**
+     * Gets the logical id of the domain name resource of a domain managed by CloudFormation
+     */
+    public getDomainNameResourceId(domain: DomainConfig): string {
+        return `CustomDomain${this.getLogicalId(domain.givenDomainName)}`;
+    }
+
+    /**
+     * Gets the target domain name and hosted zone id of a domain managed by CloudFormation,
+     * as attributes of its domain name resource
+     */
+    public getResourceTarget(domain: DomainConfig): { domainName: object, hostedZoneId: object } {
+        const domainNameId = this.getDomainNameResourceId(domain);
+        const prefix = domain.endpointType === Globals.endpointTypes.edge ? "Distribution" : "Regional";
+        return {
+            domainName: { "Fn::GetAtt": [domainNameId, `${prefix}DomainName`] },
+            hostedZoneId: { "Fn::GetAtt": [domainNameId, `${prefix}HostedZoneId`] },
+        };
+    }
+
+    /**
+     * Turns a domain name or base path into a part of a logical id, e.g. api.example.com into ApiExampleCom
+     */
+    public getLogicalId(name: string): string {
+        return name.split(/[^0-9a-zA-Z]+/)
+            .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+            .join("");
+    }
+
+    /**
+     * Checks whether the domain is managed by CloudFormation and logs that the command leaves it alone
+     */
+    public skipManagedByCloudFormation(domain: DomainConfig): boolean {
+        if (domain.managedBy !== Globals.managedBy.cloudformation) {
+            return false;
+        }
+        this.serverless.cli.log(`Custom domain ${domain.givenDomainName} is managed by CloudFormation, ` +
+            "deploy or remove the service to change it.");
+        return true;
+    }
+
+    /**
+     * Lifecycle function to print the details of the domains
+     * Prints every domain with all its basepath mappings, as JSON with --json
+     */
+    public async domainInfo(): Promise<void> {
+        const details = await this.getDomainsDetails();
+        if (this.options.json) {
+            this.printDomainsJson(details);
+        } else {
+            this.printDomainsDetails(details);
+        }
+    }
+
+    /**
+     * Lifecycle function to list all custom domains of the region
+     * Prints every domain with its mappings, the APIs and stacks they belong to,
+     * and highlights the mappings of the current service, as JSON with --json
+     */
+    public async listDomains(): Promise<void> {
+        let domainNames;
+        let apiNames;
+        try {
+            domainNames = await this.getAllPages((position) => this.apigateway.getDomainNames({ position }).promise(),
+                "items", "position");
+            apiNames = await this.getApiNames();
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error("Error: Unable to list the custom domains and APIs of the region\n");
+        }
+        const currentStackName = this.getStackName();
+        const stackNames = {};
+        const domains = [];
+        for (const domainName of domainNames) {
+            const mappings = await this.getDomainMappings(domainName.domainName,
+                domainName.endpointConfiguration && domainName.endpointConfiguration.types[0]);
+            for (const mapping of mappings) {
+                if (!(mapping.apiId in stackNames)) {
+                    stackNames[mapping.apiId] = await this.getApiStackName(mapping.apiId);
+                }
+                Object.assign(mapping, {
+                    apiName: apiNames[mapping.apiId] || null,
+                    currentService: stackNames[mapping.apiId] === currentStackName,
+                    stackName: stackNames[mapping.apiId],
+                });
+            }
+            domains.push({
+                basePathMappings: mappings,
+                domainName: domainName.domainName,
+                endpointType: domainName.endpointConfiguration ? domainName.endpointConfiguration.types[0] : null,
+            });
+        }
+        if (this.options.json) {
+            this.printDomainsJson(domains);
+        } else {
+            this.printDomainsList(domains);
+        }
+    }
+
+    /**
+     * Gets the names of the REST, HTTP and WebSocket APIs of the region, keyed by API id
+     */
+    public async getApiNames(): Promise<{ [apiId: string]: string }> {
+        const restApis = await this.getAllPages((position) => this.apigateway.getRestApis({ position }).promise(),
+            "items", "position");
+        const apis = await this.getAllPages((token) => this.apigatewayV2.getApis({ NextToken: token }).promise(),
+            "Items", "NextToken");
+        const apiNames = {};
+        restApis.forEach((restApi) => apiNames[restApi.id] = restApi.name);
+        apis.forEach((api) => apiNames[api.ApiId] = api.Name);
+        return apiNames;
+    }
+
+    /**
+     * Gets the basepath mappings of any domain of the region.
+     * Regional domains may also have API mappings of HTTP and WebSocket APIs, which only API Gateway v2 returns.
+     */
+    public async getDomainMappings(domainName: string, endpointType: string): Promise<DomainMapping[]> {
+        let mappings;
+        try {
+            const items = await this.getAllPages((position) => this.apigateway.getBasePathMappings(
+                { domainName, position }).promise(), "items", "position");
+            mappings = items.map((item) => ({ apiId: item.restApiId, basePath: item.basePath, stage: item.stage }));
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Unable to get the mappings of ${domainName}\n`);
+        }
+        if (endpointType === Globals.endpointTypes.regional) {
+            try {
+                const apiMappings = await this.getAllPages((token) => this.apigatewayV2.getApiMappings(
+                    { DomainName: domainName, NextToken: token }).promise(), "Items", "NextToken");
+                apiMappings
+                    .map((apiMapping) => ({
+                        apiId: apiMapping.ApiId,
+                        basePath: apiMapping.ApiMappingKey || "(none)",
+                        stage: apiMapping.Stage,
+                    }))
+                    .filter((apiMapping) => !mappings.some((mapping) => mapping.apiId === apiMapping.apiId
+                        && mapping.basePath === apiMapping.basePath))
+                    .forEach((apiMapping) => mappings.push(apiMapping));
+            } catch (err) {
+                // The basepath mappings are all there is to show
+                this.logIfDebug(err);
+            }
+        }
+        return mappings;
+    }
+
+    /**
+     * Gets the name of the CloudFormation stack that created the API
+     * @returns null if the API does not belong to a stack
+     */
+    public async getApiStackName(apiId: string): Promise<string | null> {
+        try {
+            const response = await this.cloudformation.describeStackResources({ PhysicalResourceId: apiId }).promise();
+            return response.StackResources.length > 0 ? response.StackResources[0].StackName : null;
+        } catch (err) {
+            this.logIfDebug(err);
+            return null;
+        }
+    }
+
+    /**
+     * Gets the name of the CloudFormation stack of the service and stage being deployed
+     */
+    public getStackName(): string {
+        const provider = this.serverless.service.provider;
+        return provider.stackName || `${this.serverless.service.service}-${this.options.stage || provider.stage}`;
+    }
+
+    /**
+     * Collects the details of every domain, see getDomainDetails
+     */
+    public async getDomainsDetails(): Promise<any[]> {
+        const details = [];
+        await this.forEachDomain(async (domain) => {
+            details.push(await this.getDomainDetails(domain));
+        });
+        return details;
+    }
+
+    /**
+     * Gets the state of the domain and all its basepath mappings, whichever API they belong to
+     * @returns a plain object, as printed by domain_info --json
+     */
+    public async getDomainDetails(domain: DomainConfig): Promise<any> {
+        const region = domain.region || this.serverless.providers.aws.getRegion();
+        try {
+            domain.domainInfo = await this.getDomainInfo(domain);
+        } catch (err) {
+            if (err.message !== `Error: ${domain.givenDomainName} not found.`) {
+                throw err;
+            }
+            return { domainName: domain.givenDomainName, exists: false, region };
+        }
+        return {
+            basePathMappings: await this.getAllMappings(domain),
+            certificateArn: domain.domainInfo.certificateArn || null,
+            domainName: domain.givenDomainName,
+            endpointType: domain.domainInfo.endpointType || null,
+            exists: true,
+            hostedZoneId: domain.domainInfo.hostedZoneId,
+            mutualTls: domain.domainInfo.mutualTls || null,
+            region,
+            securityPolicy: domain.domainInfo.securityPolicy,
+            status: domain.domainInfo.domainNameStatus || null,
+            targetDomainName: domain.domainInfo.domainName,
+        };
+    }
+
+    /**
+     * Runs the given action for every configured domain, one domain at a time.
+     * A failing domain does not stop the remaining ones; once all domains were processed,
+     * the failures are reported together.
+     * @param action function applied to each domain
+     */
+    public async forEachDomain(action: (domain: DomainConfig) => Promise<void>): Promise<void> {
+        const failures = [];
+        for (const domain of this.domains) {
+            try {
+                await action(domain);
+            } catch (err) {
+                failures.push({ domain, err });
+            }
+        }
+        if (failures.length === 0) {
+            return;
+        }
+        if (this.domains.length === 1) {
+            throw failures[0].err;
+        }
+        const details = failures.map(({ domain, err }) => {
+            const name = domain.region ? `${domain.givenDomainName} (${domain.region})` : domain.givenDomainName;
+            return `  ${name}: ${err.message.trim()}`;
+        });
+        throw new Error(`Error: ${failures.length} of ${this.domains.length} custom domains failed.\n` +
+            details.join("\n"));
+    }
+
+    /**
+     * Creates the domain and its resource record set unless the domain already exists
+     * @returns the id of the Route53 change creating the records, if the domain was created with records
+     */
+    public async createDomainIfMissing(domain: DomainConfig): Promise<string | undefined> {
+        let domainInfo;
+        try {
+            domainInfo = await this.getDomainInfo(domain);
+        } catch (err) {
+            if (err.message !== `Error: ${domain.givenDomainName} not found.`) {
+                throw err;
+            }
+        }
+        if (!domainInfo) {
+            const certArn = await this.getCertArn(domain);
+            domainInfo = await this.createCustomDomain(domain, certArn);
+            let changeId;
+            try {
+                changeId = await this.changeResourceRecordSet(domain, "UPSERT", domainInfo);
+            } catch (err) {
+                // A domain without records would only be reported as existing by the next run
+                await this.rollbackCustomDomain(domain);
+                throw err;
+            }
+            this.serverless.cli.log(
+                `Custom domain ${domain.givenDomainName} was created.
+            New domains may take up to 40 minutes to be initialized.`,
+            );
+            return changeId;
+        }
+        this.serverless.cli.log(`Custom domain ${domain.givenDomainName} already exists.`);
+        return undefined;
+    }
+
+    /**
+     * Polls the status of the domain until it is available
+     * @param waitFor: maximum number of seconds to wait, defaults to the domain's autoDomainWaitFor
+     */
+    public async waitForDomainAvailable(domain: DomainConfig,
+                                        waitFor: number = domain.autoDomainWaitFor): Promise<DomainInfo> {
+        const deadline = Date.now() + waitFor * 1000;
+        while (true) {
+            const domainInfo = await this.getDomainInfo(domain);
+            // Domains that do not report a status are usable right away
+            if (!domainInfo.domainNameStatus || domainInfo.domainNameStatus === "AVAILABLE") {
+                return domainInfo;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`Error: Timed out after ${waitFor} seconds waiting for ` +
+                    `${domain.givenDomainName} to become available, its status is ${domainInfo.domainNameStatus}.`);
+            }
+            this.serverless.cli.log(`Waiting for ${domain.givenDomainName} to become available ` +
+                `(status ${domainInfo.domainNameStatus}).`);
+            await this.sleep(Globals.domainPollInterval);
+        }
+    }
+
+    /**
+     * Polls the status of a Route53 change until its records are in sync on all Route53 DNS servers
+     * @param changeId: id of the change returned by changeResourceRecordSet
+     * @param waitFor: maximum number of seconds to wait
+     */
+    public async waitForRecordSync(domain: DomainConfig, changeId: string, waitFor: number): Promise<void> {
+        const deadline = Date.now() + waitFor * 1000;
+        while (true) {
+            let status;
+            try {
+                const change = await this.getRoute53(domain).getChange({ Id: changeId }).promise();
+                status = change.ChangeInfo.Status;
+            } catch (err) {
+                this.logIfDebug(err);
+                throw new Error(`Error: Unable to get the status of Route53 change ${changeId}\n`);
+            }
+            if (status === "INSYNC") {
+                return;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`Error: Timed out after ${waitFor} seconds waiting for the Route53 records of ` +
+                    `${domain.givenDomainName} to be in sync, the change ${changeId} is ${status}.`);
+            }
+            this.serverless.cli.log(`Waiting for the Route53 records of ${domain.givenDomainName} ` +
+                `to be in sync (status ${status}).`);
+            await this.sleep(Globals.domainPollInterval);
+        }
+    }
+
+    /**
+     * Resolves after the given number of seconds
+     */
+    public sleep(seconds: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+    }
+
+    /**
+     * Goes through custom domain properties and initializes local variables and cloudformation template
      */
     public initializeVariables(): void {
-        this.enabled = this.evaluateEnabled();
+        const defaultStage = this.options.stage || this.serverless.service.provider.stage;
+        this.domains = [];
+        // Serverless validates the configuration against the schema itself since it has a config schema handler
+        if (!this.serverless.configSchemaHandler) {
+            const errors = ConfigSchema.validate(ConfigSchema.customProperties, this.serverless.service.custom,
+                "custom");
+            if (errors.length > 0) {
+                throw new Error(`serverless-domain-manager: Invalid configuration.\n  ${errors.join("\n  ")}`);
+            }
+        }
+        this.getDomainConfigs()
+            .map((config) => new DomainConfig(config, defaultStage))
+            .filter((domain) => domain.enabled)
+            .forEach((domain) => this.domains.push(...this.expandRegions(domain)));
+        this.enabled = this.domains.length > 0;
+
         if (this.enabled) {
+            const region = this.serverless.providers.aws.getRegion();
             const credentials = this.serverless.providers.aws.getCredentials();
-            credentials.region = this.serverless.providers.aws.getRegion();
+            credentials.region = region;
 
             this.serverless.providers.aws.sdk.config.update({maxRetries: 20});
             this.apigateway = new this.serverless.providers.aws.sdk.APIGateway(credentials);
+            this.apigatewayV2 = new this.serverless.providers.aws.sdk.ApiGatewayV2(credentials);
             this.route53 = new this.serverless.providers.aws.sdk.Route53(credentials);
             this.cloudformation = new this.serverless.providers.aws.sdk.CloudFormation(credentials);
 
-            this.givenDomainName = this.serverless.service.custom.customDomain.domainName;
-            this.hostedZonePrivate = this.serverless.service.custom.customDomain.hostedZonePrivate;
-            let basePath = this.serverless.service.custom.customDomain.basePath;
-            if (basePath == null || basePath.trim() === "") {
-                basePath = "(none)";
+            this.domains.forEach((domain) => {
+                const acmRegion = domain.endpointType === Globals.endpointTypes.regional ?
+                    domain.region || region : "us-east-1";
+                const acmCredentials = Object.assign({}, this.getRoleCredentials(credentials, domain.acmRole),
+                    { region: acmRegion });
+                domain.acm = new this.serverless.providers.aws.sdk.ACM(acmCredentials);
+                if (domain.route53Role) {
+                    domain.route53 = new this.serverless.providers.aws.sdk.Route53(
+                        Object.assign({}, this.getRoleCredentials(credentials, domain.route53Role), { region }));
+                }
+                if (!this.isInDeployRegion(domain)) {
+                    const regionCredentials = Object.assign({}, credentials, { region: domain.region });
+                    domain.apigateway = new this.serverless.providers.aws.sdk.APIGateway(regionCredentials);
+                    domain.apigatewayV2 = new this.serverless.providers.aws.sdk.ApiGatewayV2(regionCredentials);
+                    domain.cloudformation = new this.serverless.providers.aws.sdk.CloudFormation(regionCredentials);
+                }
+            });
+        }
+    }
+
+    /**
+     * Gets the client configuration of a role to assume, or the plugin's own credentials if there is no role.
+     * The role is assumed with the plugin's credentials once the first request is made.
+     */
+    public getRoleCredentials(credentials: any, role: AssumedRole | undefined): any {
+        if (!role) {
+            return credentials;
+        }
+        const params = Object.assign({ RoleArn: role.roleArn, RoleSessionName: "serverless-domain-manager" },
+            role.externalId ? { ExternalId: role.externalId } : {});
+        return {
+            credentials: new this.serverless.providers.aws.sdk.ChainableTemporaryCredentials({
+                // Without credentials of its own, Serverless relies on the SDK's default credentials as well
+                masterCredentials: credentials.credentials,
+                params,
+            }),
+        };
+    }
+
+    /**
+     * Splits a multi-region domain into one copy per region, other domains are kept as they are.
+     * The deployment region has to be one of the regions, the API is only mapped in its own region.
+     */
+    public expandRegions(domain: DomainConfig): DomainConfig[] {
+        if (domain.regions.length === 0) {
+            return [domain];
+        }
+        const region = this.serverless.providers.aws.getRegion();
+        if (!domain.regions.some((regionConfig) => regionConfig.region === region)) {
+            throw new Error(`serverless-domain-manager: regions of ${domain.givenDomainName} do not include ` +
+                `the deployment region ${region}.`);
+        }
+        return domain.regions.map((regionConfig) => domain.inRegion(regionConfig));
+    }
+
+    /**
+     * Checks whether the domain lives in the region the service is deployed to
+     */
+    public isInDeployRegion(domain: DomainConfig): boolean {
+        return !domain.region || domain.region === this.serverless.providers.aws.getRegion();
+    }
+
+    /**
+     * Gets the API Gateway client of the region the domain lives in
+     */
+    public getApiGateway(domain: DomainConfig): any {
+        return domain.apigateway || this.apigateway;
+    }
+
+    /**
+     * Gets the Route53 client of the account hosting the domain's zone
+     */
+    public getRoute53(domain: DomainConfig): any {
+        return domain.route53 || this.route53;
+    }
+
+    /**
+     * Gets the API Gateway v2 client of the region the domain lives in
+     */
+    public getApiGatewayV2(domain: DomainConfig): any {
+        return domain.apigatewayV2 || this.apigatewayV2;
+    }
+
+    /**
+     * Gets the CloudFormation client of the region the domain lives in
+     */
+    public getCloudFormation(domain: DomainConfig): any {
+        return domain.cloudformation || this.cloudformation;
+    }
+
+    /**
+     * Collects the configuration of every custom domain.
+     *
+     * Domains may be given as a single customDomain object, as a customDomains list, or both.
+     * If no domain configuration exists, an exception is thrown.
+     */
+    public getDomainConfigs(): CustomDomain[] {
+        const custom = this.serverless.service.custom;
+        if (typeof custom === "undefined"
+            || (typeof custom.customDomain === "undefined" && typeof custom.customDomains === "undefined")) {
+            throw new Error("serverless-domain-manager: Plugin configuration is missing.");
+        }
+
+        const configs = [];
+        if (custom.customDomain !== undefined) {
+            configs.push(custom.customDomain);
+        }
+        if (custom.customDomains !== undefined) {
+            if (!Array.isArray(custom.customDomains)) {
+                throw new Error("serverless-domain-manager: customDomains must be a list of domain configurations.");
             }
-            this.basePath = basePath;
-            let stage = this.serverless.service.custom.customDomain.stage;
-            if (typeof stage === "undefined") {
-                stage = this.options.stage || this.serverless.service.provider.stage;
+            configs.push(...custom.customDomains);
+        }
+        return configs;
+    }
+
+    /**
+     * Gets Certificate ARN that most closely matches domain name OR given Cert ARN if provided
+     */
+    public async getCertArn(domain: DomainConfig): Promise<string> {
+        if (domain.certificateArn) {
+            this.serverless.cli.log(`Selected specific certificateArn ${domain.certificateArn}`);
+            return domain.certificateArn;
+        }
+
+        const certificateName = domain.certificateName || domain.givenDomainName;
+        let summaries;
+        try {
+            summaries = await this.getAllPages((token) => domain.acm.listCertificates(
+                { CertificateStatuses: Globals.certStatuses, NextToken: token }).promise(),
+                "CertificateSummaryList", "NextToken");
+        } catch (err) {
+            this.logIfDebug(err);
+            throw Error(`Error: Could not list certificates in Certificate Manager.\n${err}`);
+        }
+        // Status and expiry need the certificate details, which are only fetched for the candidates
+        const certificates = [];
+        for (const summary of summaries.filter((candidate) => this.isCertificateCandidate(domain, candidate))) {
+            try {
+                certificates.push(await this.describeCertificate(domain, summary.CertificateArn));
+            } catch (err) {
+                // The certificate may have been deleted since it was listed
+                this.logIfDebug(err);
             }
-            this.stage = stage;
+        }
 
-            const endpointTypeWithDefault = this.serverless.service.custom.customDomain.endpointType ||
-                endpointTypes.edge;
-            const endpointTypeToUse = endpointTypes[endpointTypeWithDefault.toLowerCase()];
-            if (!endpointTypeToUse) {
-                throw new Error(`${endpointTypeWithDefault} is not supported endpointType, use edge or regional.`);
+        let certificateArn; // The arn of the choosen certificate
+        let bestRank;
+        certificates.forEach((certificate) => {
+            const rank = this.rankCertificate(domain, certificate);
+            if (rank !== undefined && (bestRank === undefined || rank < bestRank)) {
+                bestRank = rank;
+                certificateArn = certificate.CertificateArn;
             }
-            this.endpointType = endpointTypeToUse;
+        });
 
-            const securityPolicyDefault = this.serverless.service.custom.customDomain.securityPolicy ||
-                tlsVersions.tls_1_2;
-            const tlsVersionToUse = tlsVersions[securityPolicyDefault.toLowerCase()];
-            if (!tlsVersionToUse) {
-                throw new Error(`${securityPolicyDefault} is not a supported securityPolicy, use tls_1_0 or tls_1_2.`);
+        if (certificateArn == null) {
+            if (domain.createCertificate) {
+                return await this.requestCertificate(domain, certificateName);
             }
-            this.securityPolicy = tlsVersionToUse;
+            throw Error(`Error: Could not find the certificate ${certificateName}.`);
+        }
+        this.logIfDebug(`Selected certificate ${certificateArn} for ${domain.givenDomainName}.`);
+        return certificateArn;
+    }
 
-            this.acmRegion = this.endpointType === endpointTypes.regional ?
-                this.serverless.providers.aws.getRegion() : "us-east-1";
-            const acmCredentials = Object.assign({}, credentials, { region: this.acmRegion });
-            this.acm = new this.serverless.providers.aws.sdk.ACM(acmCredentials);
+    /**
+     * Ranks how well a certificate suits a domain, lower ranks are better.
+     * Issued certificates win over pending or inactive ones and exact names win over wildcards.
+     * Returns undefined if the certificate cannot be used for the domain.
+     * @param certificate: certificate as returned by describeCertificate
+     */
+    public rankCertificate(domain: DomainConfig, certificate: any): number | undefined {
+        const arn = certificate.CertificateArn;
+        const statusRank = Globals.certStatuses.indexOf(certificate.Status);
+        if (statusRank === -1) {
+            this.logIfDebug(`Rejected certificate ${arn}: its status is ${certificate.Status}.`);
+            return undefined;
+        }
+        if (certificate.NotAfter && new Date(certificate.NotAfter).getTime() < Date.now()) {
+            this.logIfDebug(`Rejected certificate ${arn}: it expired on ${certificate.NotAfter}.`);
+            return undefined;
+        }
+
+        let matchRank;
+        if (domain.certificateName) {
+            if (certificate.DomainName !== domain.certificateName) {
+                this.logIfDebug(`Rejected certificate ${arn}: its name ${certificate.DomainName} ` +
+                    `is not ${domain.certificateName}.`);
+                return undefined;
+            }
+            matchRank = 0;
+        } else {
+            const names = [certificate.DomainName].concat(certificate.SubjectAlternativeNames || []);
+            const domainName = domain.givenDomainName.toLowerCase();
+            if (names.some((name) => name && name.toLowerCase() === domainName)) {
+                matchRank = 0;
+            } else if (names.some((name) => this.matchesWildcard(name, domainName))) {
+                matchRank = 1;
+            } else {
+                this.logIfDebug(`Rejected certificate ${arn}: none of its names ${names.join(", ")} ` +
+                    `cover ${domain.givenDomainName}.`);
+                return undefined;
+            }
         }
+
+        this.logIfDebug(`Accepted certificate ${arn}: ${certificate.Status} ` +
+            `${matchRank === 0 ? "exact" : "wildcard"} match for ${domain.givenDomainName}.`);
+        return statusRank * 2 + matchRank;
     }
 
     /**
-     * Determines whether this plug-in is enabled.
-     *
-     * This method reads the customDomain property "enabled" to see if this plug-in should be enabled.
-     * If the property's value is undefined, a default value of true is assumed (for backwards
-     * compatibility).
-     * If the property's value is provided, this should be boolean, otherwise an exception is thrown.
-     * If no customDomain object exists, an exception is thrown.
-     */
-    public evaluateEnabled(): boolean {
-        if (typeof this.serverless.service.custom === "undefined"
-            || typeof this.serverless.service.custom.customDomain === "undefined") {
-            throw new Error("serverless-domain-manager: Plugin configuration is missing.");
+     * Checks whether a wildcard certificate name like *.example.com covers the domain name.
+     * A wildcard stands for exactly one label, so it covers a.example.com
+     * but neither example.com nor a.b.example.com
+     * @param name: certificate name
+     * @param domainName: lower case domain name
+     */
+    public matchesWildcard(name: string | undefined, domainName: string): boolean {
+        if (!name || !name.startsWith("*.")) {
+            return false;
         }
+        const labels = domainName.split(".");
+        return labels.length > 1 && labels.slice(1).join(".") === name.substr(2).toLowerCase();
+    }
 
-        const enabled = this.serverless.service.custom.customDomain.enabled;
-        if (enabled === undefined) {
-            return true;
+    /**
+     * Requests a certificate from Certificate Manager, validates it through DNS records in the domain's
+     * hosted zone and waits for it to be issued
+     * @param certificateName: domain name of the certificate to request
+     */
+    public async requestCertificate(domain: DomainConfig, certificateName: string): Promise<string> {
+        let certificateArn;
+        try {
+            const response = await domain.acm.requestCertificate({
+                DomainName: certificateName,
+                ValidationMethod: "DNS",
+            }).promise();
+            certificateArn = response.CertificateArn;
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Failed to request a certificate for ${certificateName}\n`);
         }
-        if (typeof enabled === "boolean") {
-            return enabled;
-        } else if (typeof enabled === "string" && enabled === "true") {
+        this.serverless.cli.log(`Requested certificate ${certificateArn} for ${certificateName}.`);
+
+        const validationRecords = await this.getCertificateValidationRecords(domain, certificateArn);
+        await this.getDnsProvider(domain).upsertValidationRecords(domain, certificateArn, validationRecords);
+
+        await this.waitForCertificateIssued(domain, certificateArn);
+        return certificateArn;
+    }
+
+    /**
+     * Gets the DNS records validating a requested certificate.
+     * Certificate Manager fills them in shortly after the request, so they are polled for.
+     */
+    public async getCertificateValidationRecords(domain: DomainConfig, certificateArn: string): Promise<any[]> {
+        const deadline = Date.now() + Globals.certificateWaitFor * 1000;
+        while (true) {
+            const certificate = await this.describeCertificate(domain, certificateArn);
+            const validationOptions = certificate.DomainValidationOptions || [];
+            if (validationOptions.length > 0 && validationOptions.every((option) => option.ResourceRecord)) {
+                // Names covered by the same validation share one record
+                const records = new Map();
+                validationOptions.forEach((option) => records.set(option.ResourceRecord.Name, option.ResourceRecord));
+                return Array.from(records.values());
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`Error: Timed out after ${Globals.certificateWaitFor} seconds waiting for ` +
+                    `the validation records of certificate ${certificateArn}.`);
+            }
+            await this.sleep(Globals.domainPollInterval);
+        }
+    }
+
+    /**
+     * Polls the status of a requested certificate until it is issued
+     */
+    public async waitForCertificateIssued(domain: DomainConfig, certificateArn: string): Promise<void> {
+        const deadline = Date.now() + Globals.certificateWaitFor * 1000;
+        while (true) {
+            const certificate = await this.describeCertificate(domain, certificateArn);
+            if (certificate.Status === "ISSUED") {
+                this.serverless.cli.log(`Certificate ${certificateArn} was issued.`);
+                return;
+            }
+            if (certificate.Status !== "PENDING_VALIDATION") {
+                throw new Error(`Error: Certificate ${certificateArn} could not be issued, ` +
+                    `its status is ${certificate.Status}.`);
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`Error: Timed out after ${Globals.certificateWaitFor} seconds waiting for ` +
+                    `certificate ${certificateArn} to be issued.`);
+            }
+            this.serverless.cli.log(`Waiting for certificate ${certificateArn} to be validated.`);
+            await this.sleep(Globals.domainPollInterval);
+        }
+    }
+
+    /**
+     * Checks whether a certificate may cover the domain according to its summary,
+     * so that only candidates have to be described
+     */
+    public isCertificateCandidate(domain: DomainConfig, summary: any): boolean {
+        if (domain.certificateName) {
+            return summary.DomainName === domain.certificateName;
+        }
+        // Summaries list the alternative names only partly or not at all for long lists and older API versions
+        if (!summary.SubjectAlternativeNameSummaries || summary.HasAdditionalSubjectAlternativeNames) {
             return true;
-        } else if (typeof enabled === "string" && enabled === "false") {
-            return false;
         }
-        throw new Error(`serverless-domain-manager: Ambiguous enablement boolean: "${enabled}"`);
+        const domainName = domain.givenDomainName.toLowerCase();
+        return [summary.DomainName].concat(summary.SubjectAlternativeNameSummaries).some((name) =>
+            (name && name.toLowerCase() === domainName) || this.matchesWildcard(name, domainName));
     }
 
     /**
-     * Gets Certificate ARN that most closely matches domain name OR given Cert ARN if provided
+     * Gets the details of a certificate from Certificate Manager
      */
-    public async getCertArn(): Promise<string> {
-        if (this.serverless.service.custom.customDomain.certificateArn) {
-            this.serverless.cli.log(
-                `Selected specific certificateArn ${this.serverless.service.custom.customDomain.certificateArn}`);
-            return this.serverless.service.custom.customDomain.certificateArn;
-        }
-
-        let certificateArn; // The arn of the choosen certificate
-        let certificateName = this.serverless.service.custom.customDomain.certificateName; // The certificate name
-        let certData;
+    public async describeCertificate(domain: DomainConfig, certificateArn: string): Promise<any> {
         try {
-            certData = await this.acm.listCertificates(
-                { CertificateStatuses: certStatuses }).promise();
-            // The more specific name will be the longest
-            let nameLength = 0;
-            const certificates = certData.CertificateSummaryList;
-
-            // Checks if a certificate name is given
-            if (certificateName != null) {
-                const foundCertificate = certificates
-                    .find((certificate) => (certificate.DomainName === certificateName));
-                if (foundCertificate != null) {
-                    certificateArn = foundCertificate.CertificateArn;
-                }
-            } else {
-                certificateName = this.givenDomainName;
-                certificates.forEach((certificate) => {
-                    let certificateListName = certificate.DomainName;
-                    // Looks for wild card and takes it out when checking
-                    if (certificateListName[0] === "*") {
-                        certificateListName = certificateListName.substr(1);
-                    }
-                    // Looks to see if the name in the list is within the given domain
-                    // Also checks if the name is more specific than previous ones
-                    if (certificateName.includes(certificateListName)
-                        && certificateListName.length > nameLength) {
-                        nameLength = certificateListName.length;
-                        certificateArn = certificate.CertificateArn;
-                    }
-                });
-            }
+            const response = await domain.acm.describeCertificate({ CertificateArn: certificateArn }).promise();
+            return response.Certificate;
         } catch (err) {
             this.logIfDebug(err);
-            throw Error(`Error: Could not list certificates in Certificate Manager.\n${err}`);
+            throw new Error(`Error: Unable to describe certificate ${certificateArn}\n`);
         }
-        if (certificateArn == null) {
-            throw Error(`Error: Could not find the certificate ${certificateName}.`);
-        }
-        return certificateArn;
     }
 
     /**
      * Gets domain info as DomainInfo object if domain exists, otherwise returns false
      */
-    public async getDomainInfo(): Promise<DomainInfo> {
+    public async getDomainInfo(domain: DomainConfig): Promise<DomainInfo> {
         let domainInfo;
         try {
-            domainInfo = await this.apigateway.getDomainName({ domainName: this.givenDomainName }).promise();
+            if (domain.apiType === Globals.apiTypes.rest) {
+                domainInfo = await this.getApiGateway(domain)
+                    .getDomainName({ domainName: domain.givenDomainName }).promise();
+            } else {
+                domainInfo = await this.getApiGatewayV2(domain)
+                    .getDomainName({ DomainName: domain.givenDomainName }).promise();
+            }
             return new DomainInfo(domainInfo);
         } catch (err) {
             this.logIfDebug(err);
             if (err.code === "NotFoundException") {
-                throw new Error(`Error: ${this.givenDomainName} not found.`);
+                throw new Error(`Error: ${domain.givenDomainName} not found.`);
             }
-            throw new Error(`Error: Unable to fetch information about ${this.givenDomainName}`);
+            throw new Error(`Error: Unable to fetch information about ${domain.givenDomainName}`);
         }
     }
 
@@ -323,291 +1196,728 @@ class ServerlessCustomDomain {
      * Creates Custom Domain Name through API Gateway
      * @param certificateArn: Certificate ARN to use for custom domain
      */
-    public async createCustomDomain(certificateArn: string): Promise<DomainInfo> {
+    public async createCustomDomain(domain: DomainConfig, certificateArn: string): Promise<DomainInfo> {
+        if (domain.apiType !== Globals.apiTypes.rest) {
+            return this.createCustomDomainV2(domain, certificateArn);
+        }
+
         // Set up parameters
-        const params = {
+        const params: any = {
             certificateArn,
-            domainName: this.givenDomainName,
+            domainName: domain.givenDomainName,
             endpointConfiguration: {
-                types: [this.endpointType],
+                types: [domain.endpointType],
             },
             regionalCertificateArn: certificateArn,
-            securityPolicy: this.securityPolicy,
+            securityPolicy: domain.securityPolicy,
+            tags: this.getTags(domain),
         };
-        if (this.endpointType === endpointTypes.edge) {
+        if (domain.mutualTls) {
+            params.mutualTlsAuthentication = {
+                truststoreUri: domain.mutualTls.truststoreUri,
+                truststoreVersion: domain.mutualTls.truststoreVersion,
+            };
+        }
+        if (domain.endpointType === Globals.endpointTypes.edge) {
             params.regionalCertificateArn = undefined;
-        } else if (this.endpointType === endpointTypes.regional) {
+        } else if (domain.endpointType === Globals.endpointTypes.regional) {
             params.certificateArn = undefined;
         }
 
         // Make API call
         let createdDomain = {};
         try {
-            createdDomain = await this.apigateway.createDomainName(params).promise();
+            createdDomain = await this.getApiGateway(domain).createDomainName(params).promise();
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Failed to create custom domain ${this.givenDomainName}\n`);
+            throw new Error(`Error: Failed to create custom domain ${domain.givenDomainName}\n`);
         }
         return new DomainInfo(createdDomain);
     }
 
     /**
-     * Delete Custom Domain Name through API Gateway
+     * Creates Custom Domain Name through API Gateway v2, used by HTTP and WebSocket APIs
+     * @param certificateArn: Certificate ARN to use for custom domain
      */
-    public async deleteCustomDomain(): Promise<void> {
-        const params = {
-            domainName: this.givenDomainName,
+    public async createCustomDomainV2(domain: DomainConfig, certificateArn: string): Promise<DomainInfo> {
+        // Set up parameters
+        const params = Object.assign({
+            DomainName: domain.givenDomainName,
+            DomainNameConfigurations: [
+                {
+                    CertificateArn: certificateArn,
+                    EndpointType: domain.endpointType,
+                    SecurityPolicy: domain.securityPolicy,
+                },
+            ],
+            Tags: this.getTags(domain),
+        }, this.getMutualTlsParams(domain));
+
+        // Make API call
+        let createdDomain = {};
+        try {
+            createdDomain = await this.getApiGatewayV2(domain).createDomainName(params).promise();
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Failed to create custom domain ${domain.givenDomainName}\n`);
+        }
+        return new DomainInfo(createdDomain);
+    }
+
+    /**
+     * Updates Custom Domain Name through API Gateway if its configuration differs from the current one
+     * @param domainInfo: current state of the custom domain
+     * @param certificateArn: Certificate ARN to use for custom domain, the current one is kept if undefined
+     * @returns the updated domain, or undefined if the domain is already up to date
+     */
+    public async updateCustomDomain(domain: DomainConfig, domainInfo: DomainInfo,
+                                    certificateArn?: string): Promise<DomainInfo | undefined> {
+        const endpointTypeChanged = domainInfo.endpointType !== domain.endpointType;
+        const securityPolicyChanged = domainInfo.securityPolicy !== domain.securityPolicy;
+        const certificateChanged = certificateArn !== undefined && certificateArn !== domainInfo.certificateArn;
+        // A truststore without a configured version follows the latest version of its object
+        const mutualTls = domain.mutualTls;
+        const truststoreUriChanged = mutualTls !== undefined
+            && (!domainInfo.mutualTls || domainInfo.mutualTls.truststoreUri !== mutualTls.truststoreUri);
+        const truststoreVersionChanged = mutualTls !== undefined && mutualTls.truststoreVersion !== undefined
+            && (!domainInfo.mutualTls || domainInfo.mutualTls.truststoreVersion !== mutualTls.truststoreVersion);
+        if (!endpointTypeChanged && !securityPolicyChanged && !certificateChanged
+            && !truststoreUriChanged && !truststoreVersionChanged) {
+            return undefined;
+        }
+
+        // Make API call
+        let updatedDomain = {};
+        try {
+            if (domain.apiType === Globals.apiTypes.rest) {
+                const patchOperations = [];
+                if (endpointTypeChanged) {
+                    patchOperations.push({
+                        op: "replace",
+                        path: `/endpointConfiguration/types/${domainInfo.endpointType}`,
+                        value: domain.endpointType,
+                    });
+                }
+                if (certificateChanged) {
+                    patchOperations.push({
+                        op: endpointTypeChanged ? "add" : "replace",
+                        path: domain.endpointType === Globals.endpointTypes.edge ?
+                            "/certificateArn" : "/regionalCertificateArn",
+                        value: certificateArn,
+                    });
+                }
+                if (securityPolicyChanged) {
+                    patchOperations.push({
+                        op: "replace",
+                        path: "/securityPolicy",
+                        value: domain.securityPolicy,
+                    });
+                }
+                if (truststoreUriChanged) {
+                    patchOperations.push({
+                        op: "replace",
+                        path: "/mutualTlsAuthentication/truststoreUri",
+                        value: mutualTls.truststoreUri,
+                    });
+                }
+                if (truststoreVersionChanged) {
+                    patchOperations.push({
+                        op: "replace",
+                        path: "/mutualTlsAuthentication/truststoreVersion",
+                        value: mutualTls.truststoreVersion,
+                    });
+                }
+                updatedDomain = await this.getApiGateway(domain).updateDomainName({
+                    domainName: domain.givenDomainName,
+                    patchOperations,
+                }).promise();
+            } else {
+                updatedDomain = await this.getApiGatewayV2(domain).updateDomainName(Object.assign({
+                    DomainName: domain.givenDomainName,
+                    DomainNameConfigurations: [
+                        {
+                            CertificateArn: certificateArn || domainInfo.certificateArn,
+                            EndpointType: domain.endpointType,
+                            SecurityPolicy: domain.securityPolicy,
+                        },
+                    ],
+                }, this.getMutualTlsParams(domain))).promise();
+            }
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Failed to update custom domain ${domain.givenDomainName}\n`);
+        }
+        return new DomainInfo(updatedDomain);
+    }
+
+    /**
+     * Gets the tags of the domain: the tags of the stack, the tags configured for the domain
+     * and the tags recording the service and stage owning the domain
+     */
+    public getTags(domain: DomainConfig): { [key: string]: string } {
+        const provider = this.serverless.service.provider;
+        const tags = Object.assign({}, provider.tags, provider.stackTags, domain.tags, {
+            "serverless:service": this.serverless.service.service,
+            "serverless:stage": this.options.stage || provider.stage,
+        });
+        Object.keys(tags).forEach((key) => {
+            tags[key] = String(tags[key]);
+        });
+        return tags;
+    }
+
+    /**
+     * Applies the tags of the domain to the existing domain name through the tagging API
+     */
+    public async tagCustomDomain(domain: DomainConfig): Promise<void> {
+        const region = domain.region || this.serverless.providers.aws.getRegion();
+        const resourceArn = `arn:aws:apigateway:${region}::/domainnames/${domain.givenDomainName}`;
+        const tags = this.getTags(domain);
+        try {
+            if (domain.apiType === Globals.apiTypes.rest) {
+                await this.getApiGateway(domain).tagResource({ resourceArn, tags }).promise();
+            } else {
+                await this.getApiGatewayV2(domain).tagResource({ ResourceArn: resourceArn, Tags: tags }).promise();
+            }
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Failed to tag custom domain ${domain.givenDomainName}\n`);
+        }
+    }
+
+    /**
+     * Gets the mutual TLS parameters of API Gateway v2 and CloudFormation domain names, if mutual TLS is configured
+     */
+    public getMutualTlsParams(domain: DomainConfig): object {
+        if (!domain.mutualTls) {
+            return {};
+        }
+        return {
+            MutualTlsAuthentication: {
+                TruststoreUri: domain.mutualTls.truststoreUri,
+                TruststoreVersion: domain.mutualTls.truststoreVersion,
+            },
         };
+    }
 
+    /**
+     * Delete Custom Domain Name through API Gateway
+     */
+    public async deleteCustomDomain(domain: DomainConfig): Promise<void> {
         // Make API call
         try {
-            await this.apigateway.deleteDomainName(params).promise();
+            if (domain.apiType === Globals.apiTypes.rest) {
+                await this.getApiGateway(domain)
+                    .deleteDomainName({ domainName: domain.givenDomainName }).promise();
+            } else {
+                await this.getApiGatewayV2(domain)
+                    .deleteDomainName({ DomainName: domain.givenDomainName }).promise();
+            }
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Failed to delete custom domain ${this.givenDomainName}\n`);
+            throw new Error(`Error: Failed to delete custom domain ${domain.givenDomainName}\n`);
         }
     }
 
     /**
-     * Change A Alias record through Route53 based on given action
+     * Change the records of the domain through its DNS provider based on given action
+     * @param domain: DomainConfig object of the custom domain the record points to
      * @param action: String descriptor of change to be made. Valid actions are ['UPSERT', 'DELETE']
-     * @param domain: DomainInfo object containing info about custom domain
+     * @param domainInfo: DomainInfo object containing info about custom domain
+     * @returns the id of the Route53 change, or undefined if no change can be waited for
      */
-    public async changeResourceRecordSet(action: string, domain: DomainInfo): Promise<void> {
+    public async changeResourceRecordSet(domain: DomainConfig, action: string,
+                                         domainInfo: DomainInfo): Promise<string | undefined> {
         if (action !== "UPSERT" && action !== "DELETE") {
             throw new Error(`Error: Invalid action "${action}" when changing Route53 Record.
                 Action must be either UPSERT or DELETE.\n`);
         }
 
-        const createRoute53Record = this.serverless.service.custom.customDomain.createRoute53Record;
+        const createRoute53Record = domain.createRoute53Record;
         if (createRoute53Record !== undefined && createRoute53Record === false) {
             this.serverless.cli.log("Skipping creation of Route53 record.");
             return;
         }
-        // Set up parameters
-        const route53HostedZoneId = await this.getRoute53HostedZoneId();
-        const Changes = ["A", "AAAA"].map((Type) => ({
-                Action: action,
-                ResourceRecordSet: {
-                    AliasTarget: {
-                        DNSName: domain.domainName,
-                        EvaluateTargetHealth: false,
-                        HostedZoneId: domain.hostedZoneId,
-                    },
-                    Name: this.givenDomainName,
-                    Type,
-                },
-        }));
-        const params = {
-            ChangeBatch: {
-                Changes,
-                Comment: "Record created by serverless-domain-manager",
-            },
-            HostedZoneId: route53HostedZoneId,
-        };
-        // Make API call
+        return await this.getDnsProvider(domain).changeRecords(domain, action, domainInfo);
+    }
+
+    /**
+     * Gets the DNS provider managing the records of the domain
+     */
+    public getDnsProvider(domain: DomainConfig): DnsProvider {
+        return this.dnsProviders[domain.dnsProvider];
+    }
+
+    /**
+     * Makes sure the configured base paths of the domain are not mapped to other APIs.
+     * Fails naming the owners unless --force-basepath-takeover is given,
+     * which removes their mappings so the API can take them over.
+     */
+    public async takeOverBasePaths(domain: DomainConfig, apiId: string): Promise<void> {
+        const isRest = domain.apiType === Globals.apiTypes.rest;
+        // An empty base path of a REST domain cannot share the domain with any other mapping
+        const conflicts = (await this.getAllMappings(domain)).filter((current) => current.apiId !== apiId &&
+            domain.basePathMappings.some((mapping) => mapping.basePath === current.basePath ||
+                (isRest && (mapping.basePath === "(none)" || current.basePath === "(none)"))));
+        if (conflicts.length === 0) {
+            return;
+        }
+        const owners = conflicts.map((conflict) => `${conflict.basePath} (API ${conflict.apiId})`).join(", ");
+        if (!this.options["force-basepath-takeover"]) {
+            throw new Error(`Error: ${domain.givenDomainName} already maps ${owners} to other APIs. ` +
+                "Use --force-basepath-takeover to take them over.\n");
+        }
+        this.serverless.cli.log(`Taking over ${owners} of ${domain.givenDomainName}.`);
+        for (const conflict of conflicts) {
+            if (isRest) {
+                await this.deleteBasePathMapping(domain, conflict.basePath);
+            } else {
+                const apiMapping = (await this.getApiMappings(domain, conflict.apiId)).find((current) =>
+                    current.ApiMappingKey === this.getApiMappingKey(conflict.basePath));
+                await this.deleteApiMapping(domain, apiMapping);
+            }
+        }
+    }
+
+    /**
+     * Gets the base path of the first basepath mapping of the given API on the domain
+     */
+    public async getBasePathMapping(domain: DomainConfig, restApiId: string): Promise<string> {
+        const basepathItems = await this.getBasePathMappings(domain, restApiId);
+        return basepathItems.length > 0 ? basepathItems[0].basePath : undefined;
+    }
+
+    /**
+     * Gets every basepath mapping of the given API on the domain
+     */
+    public async getBasePathMappings(domain: DomainConfig, restApiId: string): Promise<any[]> {
+        let basepathItems;
         try {
-            await this.route53.changeResourceRecordSets(params).promise();
+            basepathItems = await this.getAllPages((position) => this.apigateway.getBasePathMappings(
+                { domainName: domain.givenDomainName, position }).promise(), "items", "position");
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Failed to ${action} A Alias for ${this.givenDomainName}\n`);
+            throw new Error(`Error: Unable to get BasePathMappings for ${domain.givenDomainName}`);
         }
+        return basepathItems.filter((basepathObj) => basepathObj.restApiId === restApiId);
     }
 
     /**
-     * Gets Route53 HostedZoneId from user or from AWS
+     * Creates or updates every configured basepath mapping of the REST API.
+     * Mappings of the API that are no longer configured are moved to the new base paths or removed.
      */
-    public async getRoute53HostedZoneId(): Promise<string> {
-        if (this.serverless.service.custom.customDomain.hostedZoneId) {
-            this.serverless.cli.log(
-                `Selected specific hostedZoneId ${this.serverless.service.custom.customDomain.hostedZoneId}`);
-            return this.serverless.service.custom.customDomain.hostedZoneId;
+    public async reconcileBasePathMappings(domain: DomainConfig, restApiId: string): Promise<void> {
+        const currentMappings = await this.getBasePathMappings(domain, restApiId);
+        const staleMappings = currentMappings.filter((current) =>
+            !domain.basePathMappings.some((mapping) => mapping.basePath === current.basePath));
+        const newMappings = [];
+        for (const mapping of domain.basePathMappings) {
+            const currentMapping = currentMappings.find((current) => current.basePath === mapping.basePath);
+            if (!currentMapping) {
+                newMappings.push(mapping);
+                continue;
+            }
+            if (currentMapping.stage !== mapping.stage) {
+                await this.updateBasePathMapping(domain, currentMapping.basePath, mapping, currentMapping.stage);
+            }
         }
 
-        const filterZone = this.hostedZonePrivate !== undefined;
-        if (filterZone && this.hostedZonePrivate) {
-            this.serverless.cli.log("Filtering to only private zones.");
-        } else if (filterZone && !this.hostedZonePrivate) {
-            this.serverless.cli.log("Filtering to only public zones.");
+        // API Gateway only moves mappings in place between non-empty base paths
+        const createdMappings = [];
+        for (const mapping of newMappings) {
+            const staleIndex = mapping.basePath === "(none)" ? -1 :
+                staleMappings.findIndex((staleMapping) => staleMapping.basePath !== "(none)");
+            if (staleIndex === -1) {
+                createdMappings.push(mapping);
+                continue;
+            }
+            const staleMapping = staleMappings.splice(staleIndex, 1)[0];
+            await this.updateBasePathMapping(domain, staleMapping.basePath, mapping, staleMapping.stage);
         }
 
-        let hostedZoneData;
-        const givenDomainNameReverse = this.givenDomainName.split(".").reverse();
-
-        try {
-            hostedZoneData = await this.route53.listHostedZones({}).promise();
-            const targetHostedZone = hostedZoneData.HostedZones
-                .filter((hostedZone) => {
-                    let hostedZoneName;
-                    if (hostedZone.Name.endsWith(".")) {
-                        hostedZoneName = hostedZone.Name.slice(0, -1);
-                    } else {
-                        hostedZoneName = hostedZone.Name;
-                    }
-                    if (!filterZone || this.hostedZonePrivate === hostedZone.Config.PrivateZone) {
-                        const hostedZoneNameReverse = hostedZoneName.split(".").reverse();
-
-                        if (givenDomainNameReverse.length === 1
-                            || (givenDomainNameReverse.length >= hostedZoneNameReverse.length)) {
-                            for (let i = 0; i < hostedZoneNameReverse.length; i += 1) {
-                                if (givenDomainNameReverse[i] !== hostedZoneNameReverse[i]) {
-                                    return false;
-                                }
-                            }
-                            return true;
-                        }
-                    }
-                    return false;
-                })
-                .sort((zone1, zone2) => zone2.Name.length - zone1.Name.length)
-                .shift();
-
-            if (targetHostedZone) {
-                const hostedZoneId = targetHostedZone.Id;
-                // Extracts the hostzone Id
-                const startPos = hostedZoneId.indexOf("e/") + 2;
-                const endPos = hostedZoneId.length;
-                return hostedZoneId.substring(startPos, endPos);
+        if (!createdMappings.concat(staleMappings).some((mapping) => mapping.basePath === "(none)")) {
+            for (const mapping of createdMappings) {
+                await this.createBasePathMapping(domain, restApiId, mapping);
             }
-        } catch (err) {
-            this.logIfDebug(err);
-            throw new Error(`Error: Unable to list hosted zones in Route53.\n${err}`);
+            for (const staleMapping of staleMappings) {
+                await this.deleteBasePathMapping(domain, staleMapping.basePath);
+            }
+            return;
         }
-        throw new Error(`Error: Could not find hosted zone "${this.givenDomainName}"`);
+        await this.replaceBasePathMappings(domain, restApiId, staleMappings, createdMappings);
     }
 
-    public async getBasePathMapping(restApiId: string): Promise<string> {
-        const params = {
-            domainName: this.givenDomainName,
-        };
-        let basepathInfo;
-        let currentBasePath;
+    /**
+     * Replaces mappings when switching between the empty and non-empty base paths.
+     * An empty base path cannot share the domain with other mappings, so the old mappings are removed first
+     * and restored if the new ones cannot be created.
+     */
+    public async replaceBasePathMappings(domain: DomainConfig, restApiId: string, oldMappings: any[],
+                                         newMappings: BasePathMapping[]): Promise<void> {
+        const oldBasePaths = oldMappings.map((mapping) => mapping.basePath).join(", ");
+        const newBasePaths = newMappings.map((mapping) => mapping.basePath).join(", ");
+        this.serverless.cli.log(`Replacing basepath mapping ${oldBasePaths || "(nothing)"} with ` +
+            `${newBasePaths || "(nothing)"} for ${domain.givenDomainName}, as API Gateway cannot move mappings ` +
+            "between empty and non-empty base paths.");
+        for (const oldMapping of oldMappings) {
+            await this.deleteBasePathMapping(domain, oldMapping.basePath);
+        }
         try {
-            basepathInfo = await this.apigateway.getBasePathMappings(params).promise();
+            for (const mapping of newMappings) {
+                await this.createBasePathMapping(domain, restApiId, mapping);
+            }
         } catch (err) {
-            this.logIfDebug(err);
-            throw new Error(`Error: Unable to get BasePathMappings for ${this.givenDomainName}`);
+            this.serverless.cli.log(`Restoring basepath mapping ${oldBasePaths} for ${domain.givenDomainName}.`);
+            for (const oldMapping of oldMappings) {
+                try {
+                    await this.createBasePathMapping(domain, restApiId, oldMapping);
+                } catch (restoreErr) {
+                    this.logIfDebug(restoreErr);
+                }
+            }
+            throw err;
         }
-        if (basepathInfo.items !== undefined && basepathInfo.items instanceof Array) {
-            for (const basepathObj of basepathInfo.items) {
-                if (basepathObj.restApiId === restApiId) {
-                    currentBasePath = basepathObj.basePath;
-                    break;
+    }
+
+    /**
+     * Creates or updates every configured API mapping of the API Gateway v2 API.
+     * Mappings of the API that are no longer configured are moved to the new keys or removed.
+     */
+    public async reconcileApiMappings(domain: DomainConfig, apiId: string): Promise<void> {
+        const currentMappings = await this.getApiMappings(domain, apiId);
+        const staleMappings = currentMappings.filter((current) => !domain.basePathMappings
+            .some((mapping) => this.getApiMappingKey(mapping.basePath) === current.ApiMappingKey));
+        for (const mapping of domain.basePathMappings) {
+            const currentMapping = currentMappings
+                .find((current) => current.ApiMappingKey === this.getApiMappingKey(mapping.basePath));
+            if (currentMapping) {
+                if (currentMapping.Stage !== mapping.stage) {
+                    await this.updateApiMapping(domain, currentMapping, mapping);
                 }
+            } else if (staleMappings.length > 0) {
+                await this.updateApiMapping(domain, staleMappings.shift(), mapping);
+            } else {
+                await this.createApiMapping(domain, apiId, mapping);
             }
         }
-        return currentBasePath;
+        for (const staleMapping of staleMappings) {
+            await this.deleteApiMapping(domain, staleMapping);
+        }
+    }
+
+    /**
+     * Collects the items of every page of a paginated list call
+     * @param listPage: fetches the page the given token points to, the first page for undefined
+     * @param itemsKey: name of the list of items in a page
+     * @param tokenKey: name of the token pointing to the next page, missing on the last page
+     */
+    public async getAllPages(listPage: (token: string | undefined) => Promise<any>, itemsKey: string,
+                             tokenKey: string): Promise<any[]> {
+        let items = [];
+        let token;
+        do {
+            const page = await listPage(token);
+            items = items.concat(page[itemsKey] || []);
+            token = page[tokenKey];
+        } while (token);
+        return items;
     }
 
     /**
      * Creates basepath mapping
+     * @param mapping: the base path and stage to map, the domain's first mapping by default
      */
-    public async createBasePathMapping(restApiId: string): Promise<void> {
+    public async createBasePathMapping(domain: DomainConfig, restApiId: string,
+                                       mapping: BasePathMapping = domain.basePathMappings[0]): Promise<void> {
         const params = {
-            basePath: this.basePath,
-            domainName: this.givenDomainName,
+            basePath: mapping.basePath,
+            domainName: domain.givenDomainName,
             restApiId,
-            stage: this.stage,
+            stage: mapping.stage,
         };
         // Make API call
         try {
             await this.apigateway.createBasePathMapping(params).promise();
-            this.serverless.cli.log("Created basepath mapping.");
+            this.serverless.cli.log(`Created basepath mapping ${mapping.basePath} for ${domain.givenDomainName}.`);
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Unable to create basepath mapping.\n`);
+            throw new Error(`Error: Unable to create basepath mapping for ${domain.givenDomainName}.\n`);
         }
     }
 
     /**
      * Updates basepath mapping
+     * @param oldBasePath: the base path of the existing mapping
+     * @param mapping: the base path and stage to map, the domain's first mapping by default
+     * @param oldStage: the stage of the existing mapping, if known
      */
-    public async updateBasePathMapping(oldBasePath: string): Promise<void> {
+    public async updateBasePathMapping(domain: DomainConfig, oldBasePath: string,
+                                       mapping: BasePathMapping = domain.basePathMappings[0],
+                                       oldStage?: string): Promise<void> {
+        const patchOperations = [];
+        if (oldBasePath !== mapping.basePath) {
+            patchOperations.push({ op: "replace", path: "/basePath", value: mapping.basePath });
+        }
+        if (oldStage !== undefined && oldStage !== mapping.stage) {
+            patchOperations.push({ op: "replace", path: "/stage", value: mapping.stage });
+        }
         const params = {
             basePath: oldBasePath,
-            domainName: this.givenDomainName,
-            patchOperations: [
-                {
-                    op: "replace",
-                    path: "/basePath",
-                    value: this.basePath,
-                },
-            ],
+            domainName: domain.givenDomainName,
+            patchOperations,
         };
         // Make API call
         try {
             await this.apigateway.updateBasePathMapping(params).promise();
-            this.serverless.cli.log("Updated basepath mapping.");
+            this.serverless.cli.log(`Updated basepath mapping ${mapping.basePath} for ${domain.givenDomainName}.`);
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Unable to update basepath mapping.\n`);
+            throw new Error(`Error: Unable to update basepath mapping for ${domain.givenDomainName}.\n`);
         }
     }
 
     /**
-     * Gets rest API id from CloudFormation stack
+     * Gets API id from the serverless configuration or from CloudFormation stack
      */
-    public async getRestApiId(): Promise<string> {
-        if (this.serverless.service.provider.apiGateway && this.serverless.service.provider.apiGateway.restApiId) {
+    public async getApiId(domain: DomainConfig): Promise<string> {
+        const provider = this.serverless.service.provider;
+        if (domain.apiType === Globals.apiTypes.rest && provider.apiGateway && provider.apiGateway.restApiId) {
+            this.serverless.cli.log(`Mapping custom domain to existing API
+                ${provider.apiGateway.restApiId}.`);
+            return provider.apiGateway.restApiId;
+        }
+        if (domain.apiType === Globals.apiTypes.http && provider.httpApi && provider.httpApi.id) {
+            this.serverless.cli.log(`Mapping custom domain to existing API
+                ${provider.httpApi.id}.`);
+            return provider.httpApi.id;
+        }
+        if (domain.apiType === Globals.apiTypes.websocket && provider.apiGateway
+            && provider.apiGateway.websocketApiId) {
             this.serverless.cli.log(`Mapping custom domain to existing API
-                ${this.serverless.service.provider.apiGateway.restApiId}.`);
-            return this.serverless.service.provider.apiGateway.restApiId;
+                ${provider.apiGateway.websocketApiId}.`);
+            return provider.apiGateway.websocketApiId;
         }
-        const stackName = this.serverless.service.provider.stackName ||
-            `${this.serverless.service.service}-${this.stage}`;
+        // API mappings may point to a stage that is not part of the stack name, e.g. $default of HTTP APIs
+        const stackStage = domain.apiType === Globals.apiTypes.rest ?
+            domain.stage : this.options.stage || provider.stage;
+        const stackName = provider.stackName || `${this.serverless.service.service}-${stackStage}`;
         const params = {
-            LogicalResourceId: "ApiGatewayRestApi",
+            LogicalResourceId: Globals.apiLogicalResourceIds[domain.apiType],
             StackName: stackName,
         };
 
         let response;
         try {
-            response = await this.cloudformation.describeStackResource(params).promise();
+            response = await this.getCloudFormation(domain).describeStackResource(params).promise();
         } catch (err) {
             this.logIfDebug(err);
-            throw new Error(`Error: Failed to find CloudFormation resources for ${this.givenDomainName}\n`);
+            throw new Error(`Error: Failed to find CloudFormation resources for ${domain.givenDomainName}\n`);
         }
-        const restApiId = response.StackResourceDetail.PhysicalResourceId;
-        if (!restApiId) {
-            throw new Error(`Error: No RestApiId associated with CloudFormation stack ${stackName}`);
+        const apiId = response.StackResourceDetail.PhysicalResourceId;
+        if (!apiId) {
+            throw new Error(`Error: No ApiId associated with CloudFormation stack ${stackName}`);
         }
-        return restApiId;
+        return apiId;
     }
 
     /**
      * Deletes basepath mapping
+     * @param basePath: the base path of the mapping, the domain's first base path by default
      */
-    public async deleteBasePathMapping(): Promise<void> {
+    public async deleteBasePathMapping(domain: DomainConfig, basePath: string = domain.basePath): Promise<void> {
         const params = {
-            basePath: this.basePath,
-            domainName: this.givenDomainName,
+            basePath,
+            domainName: domain.givenDomainName,
         };
         // Make API call
         try {
             await this.apigateway.deleteBasePathMapping(params).promise();
-            this.serverless.cli.log("Removed basepath mapping.");
+            this.serverless.cli.log(`Removed basepath mapping ${basePath} for ${domain.givenDomainName}.`);
+        } catch (err) {
+            this.logIfDebug(err);
+            this.serverless.cli.log(`Unable to remove basepath mapping for ${domain.givenDomainName}.`);
+        }
+    }
+
+    /**
+     * Gets the first API mapping of the given API on the domain through API Gateway v2
+     */
+    public async getApiMapping(domain: DomainConfig, apiId: string): Promise<any> {
+        return (await this.getApiMappings(domain, apiId))[0];
+    }
+
+    /**
+     * Gets every API mapping of the given API on the domain through API Gateway v2
+     */
+    public async getApiMappings(domain: DomainConfig, apiId: string): Promise<any[]> {
+        let apiMappings;
+        try {
+            apiMappings = await this.getAllPages((token) => this.apigatewayV2.getApiMappings(
+                { DomainName: domain.givenDomainName, NextToken: token }).promise(), "Items", "NextToken");
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Unable to get API mappings for ${domain.givenDomainName}`);
+        }
+        return apiMappings.filter((apiMapping) => apiMapping.ApiId === apiId);
+    }
+
+    /**
+     * Gets every basepath or API mapping of the domain, whichever API it belongs to
+     */
+    public async getAllMappings(domain: DomainConfig): Promise<DomainMapping[]> {
+        try {
+            if (domain.apiType === Globals.apiTypes.rest) {
+                const items = await this.getAllPages((position) => this.getApiGateway(domain).getBasePathMappings(
+                    { domainName: domain.givenDomainName, position }).promise(), "items", "position");
+                return items.map((item) => ({ apiId: item.restApiId, basePath: item.basePath, stage: item.stage }));
+            }
+            const apiMappings = await this.getAllPages((token) => this.getApiGatewayV2(domain).getApiMappings(
+                { DomainName: domain.givenDomainName, NextToken: token }).promise(), "Items", "NextToken");
+            return apiMappings.map((apiMapping) => ({
+                apiId: apiMapping.ApiId,
+                basePath: apiMapping.ApiMappingKey || "(none)",
+                stage: apiMapping.Stage,
+            }));
         } catch (err) {
             this.logIfDebug(err);
-            this.serverless.cli.log("Unable to remove basepath mapping.");
+            throw new Error(`Error: Unable to get the mappings of ${domain.givenDomainName}\n`);
         }
     }
 
     /**
-     *  Adds the domain name and distribution domain name to the CloudFormation outputs
+     * Gets the API mapping key of a base path, API Gateway v2 uses an empty key for (none)
+     */
+    public getApiMappingKey(basePath: string): string {
+        return basePath === "(none)" ? "" : basePath;
+    }
+
+    /**
+     * Creates API mapping through API Gateway v2
+     * @param mapping: the base path and stage to map, the domain's first mapping by default
      */
-    public addOutputs(domainInfo: DomainInfo): void {
-        const service = this.serverless.service;
-        if (!service.provider.compiledCloudFormationTemplate.Outputs) {
-            service.provider.compiledCloudFormationTemplate.Outputs = {};
+    public async createApiMapping(domain: DomainConfig, apiId: string,
+                                  mapping: BasePathMapping = domain.basePathMappings[0]): Promise<void> {
+        const params = {
+            ApiId: apiId,
+            ApiMappingKey: this.getApiMappingKey(mapping.basePath),
+            DomainName: domain.givenDomainName,
+            Stage: mapping.stage,
+        };
+        // Make API call
+        try {
+            await this.apigatewayV2.createApiMapping(params).promise();
+            this.serverless.cli.log(`Created API mapping for ${domain.givenDomainName}.`);
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Unable to create API mapping for ${domain.givenDomainName}.\n`);
         }
-        service.provider.compiledCloudFormationTemplate.Outputs.DomainName = {
-            Value: domainInfo.domainName,
+    }
+
+    /**
+     * Updates API mapping through API Gateway v2
+     * @param apiMapping: the current API mapping as returned by getApiMapping
+     * @param mapping: the base path and stage to map, the domain's first mapping by default
+     */
+    public async updateApiMapping(domain: DomainConfig, apiMapping: any,
+                                  mapping: BasePathMapping = domain.basePathMappings[0]): Promise<void> {
+        const params = {
+            ApiId: apiMapping.ApiId,
+            ApiMappingId: apiMapping.ApiMappingId,
+            ApiMappingKey: this.getApiMappingKey(mapping.basePath),
+            DomainName: domain.givenDomainName,
+            Stage: mapping.stage,
         };
-        if (domainInfo.hostedZoneId) {
-            service.provider.compiledCloudFormationTemplate.Outputs.HostedZoneId = {
-                Value: domainInfo.hostedZoneId,
-            };
+        // Make API call
+        try {
+            await this.apigatewayV2.updateApiMapping(params).promise();
+            this.serverless.cli.log(`Updated API mapping for ${domain.givenDomainName}.`);
+        } catch (err) {
+            this.logIfDebug(err);
+            throw new Error(`Error: Unable to update API mapping for ${domain.givenDomainName}.\n`);
+        }
+    }
+
+    /**
+     * Deletes API mapping through API Gateway v2
+     * @param apiMapping: the current API mapping as returned by getApiMapping
+     */
+    public async deleteApiMapping(domain: DomainConfig, apiMapping: any): Promise<void> {
+        const params = {
+            ApiMappingId: apiMapping.ApiMappingId,
+            DomainName: domain.givenDomainName,
+        };
+        // Make API call
+        try {
+            await this.apigatewayV2.deleteApiMapping(params).promise();
+            this.serverless.cli.log(`Removed API mapping for ${domain.givenDomainName}.`);
+        } catch (err) {
+            this.logIfDebug(err);
+            this.serverless.cli.log(`Unable to remove API mapping for ${domain.givenDomainName}.`);
+        }
+    }
+
+    /**
+     * Adds the target domain name and hosted zone id of every domain to the CloudFormation outputs.
+     * Outputs are named as configured, otherwise the first domain uses the plain output names
+     * and further domains get their position appended.
+     */
+    public async addOutputs(): Promise<void> {
+        const template = this.serverless.service.provider.compiledCloudFormationTemplate;
+        if (!template.Outputs) {
+            template.Outputs = {};
+        }
+        const deployRegionDomains = this.domains.filter((domain) => this.isInDeployRegion(domain));
+        const outputNames = [];
+        const addOutput = (output: StackOutput, name: string, value: any) => {
+            if (outputNames.indexOf(name) !== -1) {
+                throw new Error(`serverless-domain-manager: output ${name} is configured for several domains.`);
+            }
+            outputNames.push(name);
+            template.Outputs[name] = Object.assign({ Value: value },
+                output.export ? { Export: { Name: output.export } } : {});
+        };
+        await this.forEachDomain(async (domain) => {
+            const index = deployRegionDomains.indexOf(domain);
+            if (index === -1) {
+                return;
+            }
+            const target = await this.getOutputTarget(domain);
+            if (!target) {
+                return;
+            }
+            const suffix = index === 0 ? "" : `${index + 1}`;
+            addOutput(domain.outputs.domainName, domain.outputs.domainName.name || `DomainName${suffix}`,
+                target.domainName);
+            if (target.hostedZoneId) {
+                addOutput(domain.outputs.hostedZoneId, domain.outputs.hostedZoneId.name || `HostedZoneId${suffix}`,
+                    target.hostedZoneId);
+            }
+        });
+    }
+
+    /**
+     * Gets the target domain name and hosted zone id the outputs of a domain point to
+     * @returns undefined if the domain does not exist yet
+     */
+    public async getOutputTarget(domain: DomainConfig): Promise<{ domainName: any, hostedZoneId: any } | undefined> {
+        if (domain.managedBy === Globals.managedBy.cloudformation) {
+            return this.getResourceTarget(domain);
+        }
+        try {
+            const domainInfo = await this.getDomainInfo(domain);
+            return { domainName: domainInfo.domainName, hostedZoneId: domainInfo.hostedZoneId };
+        } catch (err) {
+            if (err.message !== `Error: ${domain.givenDomainName} not found.`) {
+                // Packaging must not depend on API Gateway, e.g. when building without credentials
+                this.logIfDebug(err);
+                this.serverless.cli.log(`Unable to look up custom domain ${domain.givenDomainName}, ` +
+                    "its outputs are left out of this package.");
+                return undefined;
+            }
         }
+        this.serverless.cli.log(`Custom domain ${domain.givenDomainName} does not exist yet, ` +
+            "its outputs are added by the next deployment.");
+        return undefined;
     }
 
     /**
@@ -620,20 +1930,106 @@ class ServerlessCustomDomain {
         }
     }
 
+    /**
+     * Prints the details of the domains as a JSON document, without any other output
+     */
+    private printDomainsJson(details: any[]): void {
+        this.serverless.cli.consoleLog(JSON.stringify({ domains: details }, null, 2));
+    }
+
+    /**
+     * Prints the details of the domains as collected by getDomainsDetails
+     */
+    private printDomainsDetails(details: any[]): void {
+        this.serverless.cli.consoleLog(chalk.yellow.underline("Serverless Domain Manager Info"));
+        details.forEach((detail) => {
+            this.serverless.cli.consoleLog(chalk.yellow("Domain Name"));
+            this.serverless.cli.consoleLog(`  ${detail.domainName}`);
+            this.serverless.cli.consoleLog(`  Region: ${detail.region}`);
+            if (!detail.exists) {
+                this.serverless.cli.consoleLog("  Does not exist");
+                return;
+            }
+            this.serverless.cli.consoleLog(chalk.yellow("Distribution Domain Name"));
+            this.serverless.cli.consoleLog(`  Target Domain: ${detail.targetDomainName}`);
+            this.serverless.cli.consoleLog(`  Hosted Zone Id: ${detail.hostedZoneId}`);
+            this.serverless.cli.consoleLog(`  Endpoint Type: ${detail.endpointType}`);
+            this.serverless.cli.consoleLog(`  Security Policy: ${detail.securityPolicy}`);
+            this.serverless.cli.consoleLog(`  Certificate: ${detail.certificateArn}`);
+            if (detail.status) {
+                this.serverless.cli.consoleLog(`  Status: ${detail.status}`);
+            }
+            this.serverless.cli.consoleLog(chalk.yellow("Base Path Mappings"));
+            if (detail.basePathMappings.length === 0) {
+                this.serverless.cli.consoleLog("  None");
+            }
+            detail.basePathMappings.forEach((mapping) => {
+                this.serverless.cli.consoleLog(`  ${mapping.basePath} -> ${mapping.apiId} (${mapping.stage})`);
+            });
+        });
+    }
+
+    /**
+     * Prints the domains of the region as collected by listDomains
+     */
+    private printDomainsList(domains: any[]): void {
+        this.serverless.cli.consoleLog(chalk.yellow.underline("Serverless Domain Manager Domains"));
+        domains.forEach((domain) => {
+            this.serverless.cli.consoleLog(chalk.yellow(`${domain.domainName} (${domain.endpointType})`));
+            if (domain.basePathMappings.length === 0) {
+                this.serverless.cli.consoleLog("  No basepath mappings");
+            }
+            domain.basePathMappings.forEach((mapping) => {
+                const line = `  ${mapping.basePath} -> ${mapping.apiName || "unknown API"} (${mapping.apiId}), ` +
+                    `stage ${mapping.stage}, stack ${mapping.stackName || "none"}`;
+                this.serverless.cli.consoleLog(mapping.currentService ? chalk.green(`${line} (this service)`) : line);
+            });
+        });
+    }
+
     /**
      * Prints out a summary of all domain manager related info
      */
-    private printDomainSummary(domainInfo: DomainInfo): void {
+    private printDomainSummary(): void {
         this.serverless.cli.consoleLog(chalk.yellow.underline("Serverless Domain Manager Summary"));
 
-        if (this.serverless.service.custom.customDomain.createRoute53Record !== false) {
-            this.serverless.cli.consoleLog(chalk.yellow("Domain Name"));
-            this.serverless.cli.consoleLog(`  ${this.givenDomainName}`);
-        }
+        let previousDomainName;
+        this.domains.forEach((domain) => {
+            if (!domain.domainInfo) {
+                return;
+            }
+            // The copies of a multi-region domain share one name
+            if (domain.createRoute53Record !== false && domain.givenDomainName !== previousDomainName) {
+                this.serverless.cli.consoleLog(chalk.yellow("Domain Name"));
+                this.serverless.cli.consoleLog(`  ${domain.givenDomainName}`);
+            }
+            previousDomainName = domain.givenDomainName;
+
+            this.serverless.cli.consoleLog(chalk.yellow("Distribution Domain Name"));
+            if (domain.region) {
+                this.serverless.cli.consoleLog(`  Region: ${domain.region}`);
+            }
+            this.serverless.cli.consoleLog(`  Target Domain: ${domain.domainInfo.domainName}`);
+            this.serverless.cli.consoleLog(`  Hosted Zone Id: ${domain.domainInfo.hostedZoneId}`);
+
+            const mutualTls = domain.domainInfo.mutualTls;
+            if (mutualTls) {
+                this.serverless.cli.consoleLog(chalk.yellow("Mutual TLS"));
+                this.serverless.cli.consoleLog(`  Truststore: ${mutualTls.truststoreUri}`);
+                if (mutualTls.truststoreVersion) {
+                    this.serverless.cli.consoleLog(`  Truststore Version: ${mutualTls.truststoreVersion}`);
+                }
+                mutualTls.truststoreWarnings.forEach((warning) => {
+                    this.serverless.cli.consoleLog(`  Truststore Warning: ${warning}`);
+                });
+            }
 
-        this.serverless.cli.consoleLog(chalk.yellow("Distribution Domain Name"));
-        this.serverless.cli.consoleLog(`  Target Domain: ${domainInfo.domainName}`);
-        this.serverless.cli.consoleLog(`  Hosted Zone Id: ${domainInfo.hostedZoneId}`);
+            if (domain.apiType === Globals.apiTypes.websocket) {
+                const path = domain.basePath === "(none)" ? "" : `/${domain.basePath}`;
+                this.serverless.cli.consoleLog(chalk.yellow("WebSocket URL"));
+                this.serverless.cli.consoleLog(`  wss://${domain.givenDomainName}${path}`);
+            }
+        });
     }
 }
 
@@ -310,7 +310,7 @@ describe("Integration Tests", function () { // eslint-disable-line func-names
     after(async () => {
       await utilities.exec(`cd ${TEMP_DIR} && sls remove --RANDOM_STRING ${RANDOM_STRING}`);
       await utilities.sleep(60);
-      await utilities.exec(`cd ${TEMP_DIR} && sls delete_domain --RANDOM_STRING ${RANDOM_STRING}`);
+      await utilities.exec(`cd ${TEMP_DIR} && sls delete_domain --force --RANDOM_STRING ${RANDOM_STRING}`);
       await utilities.sleep(60);
       await utilities.exec(`rm -rf ${TEMP_DIR}`);
     });
@@ -342,7 +342,7 @@ describe("Integration Tests", function () { // eslint-disable-line func-names
     after(async () => {
       await utilities.exec(`cd ${TEMP_DIR} && sls remove --RANDOM_STRING ${RANDOM_STRING}`);
       await utilities.sleep(60);
-      await utilities.exec(`cd ${TEMP_DIR} && sls delete_domain --RANDOM_STRING ${RANDOM_STRING}`);
+      await utilities.exec(`cd ${TEMP_DIR} && sls delete_domain --force --RANDOM_STRING ${RANDOM_STRING}`);
       await utilities.sleep(60);
       await utilities.exec(`rm -rf ${TEMP_DIR}`);
     });
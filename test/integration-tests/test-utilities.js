@@ -238,14 +238,14 @@ function slsDeploy(tempDir, domainIdentifier) {
 }
 
 /**
- * Runs `sls delete_domain` for the given folder
+ * Runs `sls delete_domain --force` for the given folder
  * @param tempDir
  * @param domainIdentifier Random alphanumeric string to identify specific run of integration tests.
  * @returns {Promise<any>}
  */
 function slsDeleteDomain(tempDir, domainIdentifier) {
   return new Promise((resolve) => {
-    shell.exec(`cd ${tempDir} && sls delete_domain --RANDOM_STRING ${domainIdentifier}`, { silent: true }, (err, stdout, stderr) => {
+    shell.exec(`cd ${tempDir} && sls delete_domain --force --RANDOM_STRING ${domainIdentifier}`, { silent: true }, (err, stdout, stderr) => {
       if (err || stderr) {
         return resolve(false);
       }
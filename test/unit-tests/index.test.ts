@@ -3,6 +3,7 @@ import * as AWS from "aws-sdk-mock";
 import chai = require("chai");
 import spies = require("chai-spies");
 import "mocha";
+import DomainConfig = require("../../DomainConfig");
 import DomainInfo = require("../../DomainInfo");
 import ServerlessCustomDomain = require("../../index");
 import { ServerlessInstance, ServerlessOptions } from "../../types";
@@ -15,6 +16,7 @@ const certTestData = {
     {
       CertificateArn: "test_arn",
       DomainName: "test_domain",
+      SubjectAlternativeNames: ["test_domain", "*.test_domain"],
     },
     {
       CertificateArn: "test_given_cert_name",
@@ -26,6 +28,11 @@ const certTestData = {
     },
   ],
 };
+// Mocks describeCertificate with the certificates of certTestData, all of them issued
+const describeCertTestData = (params, callback) => {
+  const summary = certTestData.CertificateSummaryList.find((cert) => cert.CertificateArn === params.CertificateArn);
+  callback(null, { Certificate: Object.assign({ Status: "ISSUED" }, summary) });
+};
 let consoleOutput = [];
 const testCreds = {
   accessKeyId: "test_key",
@@ -49,6 +56,8 @@ const constructPlugin = (customDomainOptions) => {
         sdk: {
           ACM: aws.ACM,
           APIGateway: aws.APIGateway,
+          ApiGatewayV2: aws.ApiGatewayV2,
+          ChainableTemporaryCredentials: aws.ChainableTemporaryCredentials,
           CloudFormation: aws.CloudFormation,
           Route53: aws.Route53,
           config: {
@@ -60,26 +69,44 @@ const constructPlugin = (customDomainOptions) => {
     service: {
       custom: {
         customDomain: {
+          acmRole: customDomainOptions.acmRole,
+          apiType: customDomainOptions.apiType,
+          autoDomain: customDomainOptions.autoDomain,
+          autoDomainWaitFor: customDomainOptions.autoDomainWaitFor,
           basePath: customDomainOptions.basePath,
+          basePathMappings: customDomainOptions.basePathMappings,
           certificateArn: customDomainOptions.certificateArn,
           certificateName: customDomainOptions.certificateName,
+          createCertificate: customDomainOptions.createCertificate,
           createRoute53Record: customDomainOptions.createRoute53Record,
+          dnsProvider: customDomainOptions.dnsProvider,
           domainName: customDomainOptions.domainName,
           enabled: customDomainOptions.enabled,
           endpointType: customDomainOptions.endpointType,
           hostedZoneId: customDomainOptions.hostedZoneId,
           hostedZonePrivate: customDomainOptions.hostedZonePrivate,
+          managedBy: customDomainOptions.managedBy,
+          mutualTls: customDomainOptions.mutualTls,
+          outputs: customDomainOptions.outputs,
+          regions: customDomainOptions.regions,
+          route53Params: customDomainOptions.route53Params,
+          route53Role: customDomainOptions.route53Role,
           securityPolicy: customDomainOptions.securityPolicy,
           stage: customDomainOptions.stage,
+          tags: customDomainOptions.tags,
         },
       },
       provider: {
         apiGateway: {
           restApiId: null,
+          websocketApiId: null,
         },
         compiledCloudFormationTemplate: {
           Outputs: null,
         },
+        httpApi: {
+          id: null,
+        },
         stackName: "custom-stage-name",
         stage: "test",
       },
@@ -94,7 +121,7 @@ const constructPlugin = (customDomainOptions) => {
 
 describe("Custom Domain Plugin", () => {
   it("Checks aws config", () => {
-    const plugin = constructPlugin({});
+    const plugin = constructPlugin({ domainName: "test_domain" });
 
     plugin.initializeVariables();
 
@@ -105,7 +132,7 @@ describe("Custom Domain Plugin", () => {
 
   describe("Domain Endpoint types", () => {
     it("Unsupported endpoint types throw exception", () => {
-      const plugin = constructPlugin({ endpointType: "notSupported" });
+      const plugin = constructPlugin({ domainName: "test_domain", endpointType: "notSupported" });
 
       let errored = false;
       try {
@@ -129,11 +156,10 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
-      plugin.basePath = plugin.serverless.service.custom.customDomain.basePath;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
 
-      await plugin.createBasePathMapping("test_rest_api_id");
+      await plugin.createBasePathMapping(dc, "test_rest_api_id");
       expect(spy).to.have.been.called.with({
         basePath: "test_basepath",
         domainName: "test_domain",
@@ -152,11 +178,10 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
-      plugin.basePath = plugin.serverless.service.custom.customDomain.basePath;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "updateBasePathMapping");
 
-      await plugin.updateBasePathMapping("old_basepath");
+      await plugin.updateBasePathMapping(dc, "old_basepath");
       expect(spy).to.have.been.called.with({
         basePath: "old_basepath",
         domainName: "test_domain",
@@ -170,17 +195,70 @@ describe("Custom Domain Plugin", () => {
       });
     });
 
-    it("Add Domain Name and HostedZoneId to stack output", () => {
-      const plugin = constructPlugin({
-        domainName: "test_domain",
-      });
-      plugin.addOutputs(new DomainInfo({
+    it("Add Domain Name and HostedZoneId to stack output", async () => {
+      AWS.mock("APIGateway", "getDomainName", {
         distributionDomainName: "fake_dist_name",
         distributionHostedZoneId: "fake_zone_id",
         domainName: "fake_domain",
-      }));
+      });
+      const plugin = constructPlugin({
+        domainName: "test_domain",
+      });
+      plugin.initializeVariables();
+      await plugin.addOutputs();
       const cfTemplat = plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs;
       expect(cfTemplat).to.not.equal(undefined);
+      expect(cfTemplat.DomainName).to.deep.equal({ Value: "fake_dist_name" });
+      expect(cfTemplat.HostedZoneId).to.deep.equal({ Value: "fake_zone_id" });
+    });
+
+    it("Adds stack outputs with configured names and exports while packaging", async () => {
+      AWS.mock("APIGateway", "getDomainName", {
+        regionalDomainName: "fake_regional_name",
+        regionalHostedZoneId: "fake_zone_id",
+      });
+      const plugin = constructPlugin({
+        domainName: "test_domain",
+        outputs: {
+          domainName: { export: "test-domain-target", name: "ApiTarget" },
+          hostedZoneId: { name: "ApiHostedZoneId" },
+        },
+      });
+      await plugin.hooks["before:package:finalize"]();
+      expect(plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs).to.deep.equal({
+        ApiHostedZoneId: { Value: "fake_zone_id" },
+        ApiTarget: { Export: { Name: "test-domain-target" }, Value: "fake_regional_name" },
+      });
+    });
+
+    it("Skips the outputs of a domain that does not exist yet", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "NotFoundException" }, {});
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
+      await plugin.addOutputs();
+      expect(plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs).to.deep.equal({});
+      expect(consoleOutput).to.contain("Custom domain test_domain does not exist yet, " +
+        "its outputs are added by the next deployment.");
+    });
+
+    it("Packages without the outputs of a domain that cannot be looked up", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "TooManyRequestsException" }, {});
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
+      await plugin.addOutputs();
+      expect(plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs).to.deep.equal({});
+      expect(consoleOutput).to.contain("Unable to look up custom domain test_domain, " +
+        "its outputs are left out of this package.");
+    });
+
+    it("Should throw an Error when an output name is not alphanumeric", () => {
+      const plugin = constructPlugin({ domainName: "test_domain", outputs: { domainName: { name: "api-target" } } });
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: outputs.domainName.name " +
+        "must be alphanumeric, got \"api-target\"");
     });
 
     it("(none) is added if basepath is an empty string", async () => {
@@ -194,10 +272,10 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
 
-      await plugin.createBasePathMapping("test_rest_api_id");
+      await plugin.createBasePathMapping(dc, "test_rest_api_id");
       expect(spy).to.have.been.called.with({
         basePath: "(none)",
         domainName: "test_domain",
@@ -217,10 +295,10 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
 
-      await plugin.createBasePathMapping("test_rest_api_id");
+      await plugin.createBasePathMapping(dc, "test_rest_api_id");
       expect(spy).to.have.been.called.with({
         basePath: "(none)",
         domainName: "test_domain",
@@ -239,10 +317,10 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
 
-      await plugin.createBasePathMapping("test_rest_api_id");
+      await plugin.createBasePathMapping(dc, "test_rest_api_id");
       expect(spy).to.have.been.called.with({
         basePath: "(none)",
         domainName: "test_domain",
@@ -262,10 +340,10 @@ describe("Custom Domain Plugin", () => {
       plugin.initializeVariables();
       plugin.cloudformation = new aws.CloudFormation();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = plugin.domains[0];
       const spy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
 
-      await plugin.createBasePathMapping("test_rest_api_id");
+      await plugin.createBasePathMapping(dc, "test_rest_api_id");
       expect(spy).to.have.been.called.with({
         basePath: "(none)",
         domainName: "test_domain",
@@ -283,26 +361,30 @@ describe("Custom Domain Plugin", () => {
   describe("Create a New Domain Name", () => {
     it("Get a given certificate arn", async () => {
       AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
 
       const options = {
         certificateArn: "test_given_arn",
         endpointType: "REGIONAL",
       };
       const plugin = constructPlugin(options);
-      plugin.acm = new aws.ACM();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.acm = new aws.ACM();
 
-      const result = await plugin.getCertArn();
+      const result = await plugin.getCertArn(dc);
 
       expect(result).to.equal("test_given_arn");
     });
 
     it("Get a given certificate name", async () => {
       AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
 
       const plugin = constructPlugin({ certificateName: "cert_name" });
-      plugin.acm = new aws.ACM();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.acm = new aws.ACM();
 
-      const result = await plugin.getCertArn();
+      const result = await plugin.getCertArn(dc);
 
       expect(result).to.equal("test_given_cert_name");
     });
@@ -314,9 +396,9 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({ domainName: "test_domain"});
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      const result = await plugin.createCustomDomain("fake_cert");
+      const result = await plugin.createCustomDomain(dc, "fake_cert");
 
       expect(result.domainName).to.equal("foo");
       expect(result.securityPolicy).to.equal("TLS_1_2");
@@ -329,9 +411,9 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({ domainName: "test_domain", securityPolicy: "tls_1_2"});
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      const result = await plugin.createCustomDomain("fake_cert");
+      const result = await plugin.createCustomDomain(dc, "fake_cert");
 
       expect(result.domainName).to.equal("foo");
       expect(result.securityPolicy).to.equal("TLS_1_2");
@@ -348,7 +430,8 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({ basePath: "test_basepath" });
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "test_domain";
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "test_domain";
       const spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
 
       const domain = new DomainInfo(
@@ -358,7 +441,7 @@ describe("Custom Domain Plugin", () => {
         },
       );
 
-      await plugin.changeResourceRecordSet("UPSERT", domain);
+      await plugin.changeResourceRecordSet(dc, "UPSERT", domain);
 
       const expectedParams = {
         ChangeBatch: {
@@ -390,17 +473,83 @@ describe("Custom Domain Plugin", () => {
           ],
           Comment: "Record created by serverless-domain-manager",
         },
-        HostedZoneId: "est_host_id", // getRoute53HostedZoneId strips first character
+        HostedZoneId: "est_host_id", // getHostedZoneId strips first character
       };
       expect(spy).to.have.been.called.with(expectedParams);
     });
 
+    it("Create weighted alias records", async () => {
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({
+        domainName: "test_domain",
+        hostedZoneId: "test_host_id",
+        route53Params: { routingPolicy: "weighted", setIdentifier: "blue", weight: "10" },
+      });
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      const spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
+
+      await plugin.changeResourceRecordSet(dc, "UPSERT", new DomainInfo({
+        distributionDomainName: "test_distribution_name",
+        distributionHostedZoneId: "test_id",
+      }));
+
+      const recordSet = spy.__spy.calls[0][0].ChangeBatch.Changes[0].ResourceRecordSet;
+      expect(recordSet).to.deep.equal({
+        AliasTarget: { DNSName: "test_distribution_name", EvaluateTargetHealth: false, HostedZoneId: "test_id" },
+        Name: "test_domain",
+        SetIdentifier: "blue",
+        Type: "A",
+        Weight: 10,
+      });
+    });
+
+    it("Create latency alias records with a health check", async () => {
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({
+        domainName: "test_domain",
+        endpointType: "REGIONAL",
+        hostedZoneId: "test_host_id",
+        route53Params: {
+          evaluateTargetHealth: true,
+          healthCheckId: "test_health_check",
+          routingPolicy: "latency",
+          setIdentifier: "eu-west-1",
+        },
+      });
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      const spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
+
+      await plugin.changeResourceRecordSet(dc, "UPSERT", new DomainInfo({
+        regionalDomainName: "test_regional_name",
+        regionalHostedZoneId: "test_id",
+      }));
+
+      const recordSet = spy.__spy.calls[0][0].ChangeBatch.Changes[1].ResourceRecordSet;
+      expect(recordSet).to.deep.equal({
+        AliasTarget: { DNSName: "test_regional_name", EvaluateTargetHealth: true, HostedZoneId: "test_id" },
+        HealthCheckId: "test_health_check",
+        Name: "test_domain",
+        Region: "eu-west-1",
+        SetIdentifier: "eu-west-1",
+        Type: "AAAA",
+      });
+    });
+
     it("Do not create a Route53 record", async () => {
       const plugin = constructPlugin({
         createRoute53Record: false,
         domainName: "test_domain",
       });
-      const result = await plugin.changeResourceRecordSet("UPSERT", new DomainInfo({}));
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      const result = await plugin.changeResourceRecordSet(dc, "UPSERT", new DomainInfo({}));
       expect(result).to.equal(undefined);
     });
 
@@ -423,11 +572,10 @@ describe("Custom Domain Plugin", () => {
       const plugin = constructPlugin({
         domainName: "test_domain",
       });
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
-      plugin.basePath = plugin.serverless.service.custom.customDomain.basePath;
       plugin.initializeVariables();
+      const dc: DomainConfig = plugin.domains[0];
 
-      const result = await plugin.getBasePathMapping("test_rest_api_id_two");
+      const result = await plugin.getBasePathMapping(dc, "test_rest_api_id_two");
       expect(result).to.equal(undefined);
     });
 
@@ -444,11 +592,29 @@ describe("Custom Domain Plugin", () => {
         basePath: "api",
         domainName: "test_domain",
       });
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
-      plugin.basePath = plugin.serverless.service.custom.customDomain.basePath;
+      plugin.initializeVariables();
+      const dc: DomainConfig = plugin.domains[0];
+
+      const result = await plugin.getBasePathMapping(dc, "test_rest_api_id");
+      expect(result).to.equal("api");
+    });
+
+    it("Follows the position through every page", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        if (params.position === undefined) {
+          callback(null, {
+            items: [{ basePath: "other", restApiId: "test_rest_api_id_one", stage: "test" }],
+            position: "page_two",
+          });
+        } else {
+          callback(null, { items: [{ basePath: "api", restApiId: "test_rest_api_id", stage: "test" }] });
+        }
+      });
+
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
       plugin.initializeVariables();
 
-      const result = await plugin.getBasePathMapping("test_rest_api_id");
+      const result = await plugin.getBasePathMapping(plugin.domains[0], "test_rest_api_id");
       expect(result).to.equal("api");
     });
 
@@ -474,8 +640,9 @@ describe("Custom Domain Plugin", () => {
         domainName: "test_domain",
       });
       plugin.cloudformation = new aws.CloudFormation();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      const result = await plugin.getRestApiId();
+      const result = await plugin.getApiId(dc);
       expect(result).to.equal("test_rest_api_id");
     });
 
@@ -496,8 +663,9 @@ describe("Custom Domain Plugin", () => {
       });
       plugin.cloudformation = new aws.CloudFormation();
       plugin.serverless.service.provider.apiGateway.restApiId = "custom_test_rest_api_id";
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      const result = await plugin.getRestApiId();
+      const result = await plugin.getApiId(dc);
       expect(result).to.equal("custom_test_rest_api_id");
     });
 
@@ -517,9 +685,9 @@ describe("Custom Domain Plugin", () => {
         domainName: "test_domain",
       });
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      const result = await plugin.getDomainInfo();
+      const result = await plugin.getDomainInfo(dc);
 
       expect(result.domainName).to.equal("test_domain");
     });
@@ -538,7 +706,7 @@ describe("Custom Domain Plugin", () => {
         domainName: "test_domain",
       });
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
       const spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
 
       const domain = new DomainInfo({
@@ -546,7 +714,7 @@ describe("Custom Domain Plugin", () => {
         distributionHostedZoneId: "test_id",
       });
 
-      await plugin.changeResourceRecordSet("DELETE", domain);
+      await plugin.changeResourceRecordSet(dc, "DELETE", domain);
       const expectedParams = {
         ChangeBatch: {
           Changes: [
@@ -577,7 +745,7 @@ describe("Custom Domain Plugin", () => {
           ],
           Comment: "Record created by serverless-domain-manager",
         },
-        HostedZoneId: "est_host_id", // getRoute53HostedZoneId strips the first character
+        HostedZoneId: "est_host_id", // getHostedZoneId strips the first character
       };
       expect(spy).to.be.called.with(expectedParams);
 
@@ -593,10 +761,10 @@ describe("Custom Domain Plugin", () => {
         domainName: "test_domain",
       });
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
       const spy = chai.spy.on(plugin.apigateway, "deleteDomainName");
 
-      await plugin.deleteCustomDomain();
+      await plugin.deleteCustomDomain(dc);
       expect(spy).to.be.called.with({
         domainName: "test_domain",
       });
@@ -632,7 +800,6 @@ describe("Custom Domain Plugin", () => {
       plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
       plugin.cloudformation = new aws.CloudFormation();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
       const spy = chai.spy.on(plugin, "createBasePathMapping");
 
       await plugin.setupBasePathMapping();
@@ -644,6 +811,7 @@ describe("Custom Domain Plugin", () => {
       AWS.mock("APIGateway", "getDomainName", (params, callback) => {
         callback(null, { distributionDomainName: "test_distribution", regionalHostedZoneId: "test_id" });
       });
+      AWS.mock("APIGateway", "getBasePathMappings", { items: [] });
       AWS.mock("APIGateway", "deleteDomainName", (params, callback) => {
         callback(null, {});
       });
@@ -655,15 +823,65 @@ describe("Custom Domain Plugin", () => {
       });
 
       const plugin = constructPlugin({ domainName: "test_domain"});
+      plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const confirmSpy = chai.spy.on(plugin, "confirm", () => Promise.resolve(true));
+      await plugin.deleteDomain();
+      expect(confirmSpy).to.have.been.called.with("Delete custom domain test_domain and its DNS records?");
+      expect(consoleOutput[0]).to.equal(`Custom domain test_domain was deleted.`);
+    });
+
+    it("deleteDomain keeps the domain unless confirmed", async () => {
+      AWS.mock("APIGateway", "getDomainName", { distributionDomainName: "test_distribution" });
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "api", restApiId: "test_rest_api_id", stage: "test" }],
+      });
+      AWS.mock("APIGateway", "deleteDomainName", {});
+
+      const plugin = constructPlugin({ domainName: "test_domain"});
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      chai.spy.on(plugin, "confirm", () => Promise.resolve(false));
+      const deleteSpy = chai.spy.on(plugin.apigateway, "deleteDomainName");
+
       await plugin.deleteDomain();
-      expect(consoleOutput[0]).to.equal(`Custom domain ${plugin.givenDomainName} was deleted.`);
+
+      expect(deleteSpy).to.not.have.been.called();
+      expect(consoleOutput).to.contain("  api -> test_rest_api_id (test)");
+      expect(consoleOutput).to.contain("Custom domain test_domain was not deleted.");
+    });
+
+    it("deleteDomain refuses to delete domains other APIs are mapped to", async () => {
+      AWS.mock("APIGateway", "getDomainName", { distributionDomainName: "test_distribution" });
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "other", restApiId: "other_rest_api_id", stage: "prod" }],
+      });
+      AWS.mock("APIGateway", "deleteDomainName", {});
+
+      const plugin = constructPlugin({ domainName: "test_domain"});
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const deleteSpy = chai.spy.on(plugin.apigateway, "deleteDomainName");
+
+      let errored = false;
+      try {
+        await plugin.deleteDomain();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Other APIs are still mapped to test_domain. " +
+          "Use --force to delete it anyway.\n");
+      }
+      expect(errored).to.equal(true);
+      expect(deleteSpy).to.not.have.been.called();
+      expect(consoleOutput).to.contain("  other -> other_rest_api_id (prod)");
     });
 
     it("createDomain if one does not exist before", async () => {
       AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
       AWS.mock("APIGateway", "getDomainName", (params, callback) => {
         callback({ code: "NotFoundException" }, {});
       });
@@ -678,17 +896,53 @@ describe("Custom Domain Plugin", () => {
       });
 
       const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
       plugin.route53 = new aws.Route53();
-      plugin.acm = new aws.ACM();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      plugin.domains[0].acm = new aws.ACM();
       await plugin.createDomain();
-      expect(consoleOutput[0]).to.equal(`Custom domain ${plugin.givenDomainName} was created.
+      expect(consoleOutput[0]).to.equal(`Custom domain test_domain was created.
             New domains may take up to 40 minutes to be initialized.`);
     });
 
+    it("Deletes the new domain again if its records cannot be created", async () => {
+      AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "NotFoundException" }, {});
+      });
+      AWS.mock("APIGateway", "createDomainName", { distributionDomainName: "foo", regionalHostedZoneId: "test_id" });
+      AWS.mock("APIGateway", "deleteDomainName", {});
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, { HostedZones: [{ Name: "test_domain", Id: "test_id", Config: { PrivateZone: false } }] });
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback({ code: "InvalidChangeBatch" }, {});
+      });
+
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      plugin.domains[0].acm = new aws.ACM();
+      const deleteSpy = chai.spy.on(plugin.apigateway, "deleteDomainName");
+
+      let errored = false;
+      try {
+        await plugin.createDomain();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Failed to UPSERT A Alias for test_domain\n");
+      }
+      expect(errored).to.equal(true);
+      expect(deleteSpy).to.have.been.called.with({ domainName: "test_domain" });
+      expect(consoleOutput).to.contain("Deleting custom domain test_domain again, " +
+        "as its DNS records could not be created.");
+    });
+
     it("Does not create domain if one existed before", async () => {
       AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
       AWS.mock("APIGateway", "getDomainName", (params, callback) => {
         callback(null, { distributionDomainName: "foo", regionalHostedZoneId: "test_id" });
       });
@@ -703,12 +957,12 @@ describe("Custom Domain Plugin", () => {
       });
 
       const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
       plugin.route53 = new aws.Route53();
-      plugin.acm = new aws.ACM();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      plugin.domains[0].acm = new aws.ACM();
       await plugin.createDomain();
-      expect(consoleOutput[0]).to.equal(`Custom domain ${plugin.givenDomainName} already exists.`);
+      expect(consoleOutput[0]).to.equal(`Custom domain test_domain already exists.`);
     });
 
     afterEach(() => {
@@ -717,161 +971,2011 @@ describe("Custom Domain Plugin", () => {
     });
   });
 
-  describe("Select Hosted Zone", () => {
-    it("Natural order", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
-        callback(null, {
-          HostedZones: [
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
-            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-          ],
-        });
+  describe("Select a certificate", () => {
+    const mockCertificates = (certificates) => {
+      AWS.mock("ACM", "listCertificates", {
+        CertificateSummaryList: certificates.map((cert) => ({
+          CertificateArn: cert.CertificateArn,
+          DomainName: cert.DomainName,
+        })),
       });
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        callback(null, { Certificate: certificates.find((cert) => cert.CertificateArn === params.CertificateArn) });
+      });
+    };
 
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "ccc.bbb.aaa.com";
-
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_2");
-    });
+    const getCertArnFor = async (domainName) => {
+      const plugin = constructPlugin({ domainName });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.acm = new aws.ACM();
+      return plugin.getCertArn(dc);
+    };
 
-    it("Reverse order", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
-        callback(null, {
-          HostedZones: [
-            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-          ],
-        });
-      });
+    it("Lets a wildcard cover exactly one label", async () => {
+      mockCertificates([
+        { CertificateArn: "parent_wildcard", DomainName: "*.example.com", Status: "ISSUED" },
+        { CertificateArn: "child_wildcard", DomainName: "*.b.example.com", Status: "ISSUED" },
+      ]);
 
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "test.ccc.bbb.aaa.com";
+      expect(await getCertArnFor("a.b.example.com")).to.equal("child_wildcard");
+      expect(await getCertArnFor("b.example.com")).to.equal("parent_wildcard");
 
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_1");
+      let errored = false;
+      try {
+        await getCertArnFor("example.com");
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Could not find the certificate example.com.");
+      }
+      expect(errored).to.equal(true);
     });
 
-    it("Random order", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
-        callback(null, {
-          HostedZones: [
-            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-          ],
-        });
-      });
-
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "test.ccc.bbb.aaa.com";
+    it("Matches whole names only, including subject alternative names", async () => {
+      mockCertificates([
+        { CertificateArn: "other_domain", DomainName: "notexample.com", Status: "ISSUED" },
+        {
+          CertificateArn: "alternative_name",
+          DomainName: "other.org",
+          Status: "ISSUED",
+          SubjectAlternativeNames: ["other.org", "example.com"],
+        },
+      ]);
 
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_2");
+      expect(await getCertArnFor("example.com")).to.equal("alternative_name");
     });
 
-    it("Sub domain name - only root hosted zones", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
-        callback(null, {
-          HostedZones: [
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "ccc.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-          ],
-        });
+    it("Describes only the candidates and skips the ones that cannot be described", async () => {
+      const described = [];
+      AWS.mock("ACM", "listCertificates", {
+        CertificateSummaryList: [
+          { CertificateArn: "unrelated", DomainName: "other.org", SubjectAlternativeNameSummaries: ["other.org"] },
+          {
+            CertificateArn: "deleted",
+            DomainName: "api.example.com",
+            SubjectAlternativeNameSummaries: ["api.example.com"],
+          },
+          {
+            CertificateArn: "wildcard",
+            DomainName: "*.example.com",
+            SubjectAlternativeNameSummaries: ["*.example.com"],
+          },
+        ],
+      });
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        described.push(params.CertificateArn);
+        if (params.CertificateArn === "deleted") {
+          callback({ code: "ResourceNotFoundException" }, {});
+        } else {
+          callback(null, {
+            Certificate: { CertificateArn: params.CertificateArn, DomainName: "*.example.com", Status: "ISSUED" },
+          });
+        }
       });
 
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "bar.foo.bbb.fr";
-
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_1");
+      expect(await getCertArnFor("api.example.com")).to.equal("wildcard");
+      expect(described).to.deep.equal(["deleted", "wildcard"]);
     });
 
-    it("With matching root and sub hosted zone", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+    it("Describes only the certificates with the configured name", async () => {
+      const described = [];
+      AWS.mock("ACM", "listCertificates", {
+        CertificateSummaryList: [
+          { CertificateArn: "other_name", DomainName: "api.example.com" },
+          { CertificateArn: "given_name", DomainName: "cert.example.com" },
+        ],
+      });
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        described.push(params.CertificateArn);
         callback(null, {
-          HostedZones: [
-            { Name: "a.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-          ],
+          Certificate: { CertificateArn: params.CertificateArn, DomainName: "cert.example.com", Status: "ISSUED" },
         });
       });
+      const plugin = constructPlugin({ certificateName: "cert.example.com", domainName: "api.example.com" });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.acm = new aws.ACM();
 
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "test.a.aaa.com";
-
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_0");
+      expect(await plugin.getCertArn(dc)).to.equal("given_name");
+      expect(described).to.deep.equal(["given_name"]);
     });
 
-    it("Sub domain name - natural order", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+    it("Prefers issued, exact certificates and skips expired ones", async () => {
+      mockCertificates([
+        { CertificateArn: "pending_exact", DomainName: "api.example.com", Status: "PENDING_VALIDATION" },
+        { CertificateArn: "expired_exact", DomainName: "api.example.com", NotAfter: new Date(0), Status: "ISSUED" },
+        { CertificateArn: "issued_wildcard", DomainName: "*.example.com", Status: "ISSUED" },
+        { CertificateArn: "issued_exact", DomainName: "api.example.com", Status: "ISSUED" },
+        { CertificateArn: "inactive_exact", DomainName: "api.example.com", Status: "INACTIVE" },
+      ]);
+      expect(await getCertArnFor("api.example.com")).to.equal("issued_exact");
+
+      AWS.restore();
+      mockCertificates([
+        { CertificateArn: "pending_exact", DomainName: "api.example.com", Status: "PENDING_VALIDATION" },
+        { CertificateArn: "issued_wildcard", DomainName: "*.example.com", Status: "ISSUED" },
+      ]);
+      expect(await getCertArnFor("api.example.com")).to.equal("issued_wildcard");
+    });
+
+    it("Follows the NextToken through every page", async () => {
+      AWS.mock("ACM", "listCertificates", (params, callback) => {
+        if (params.NextToken === undefined) {
+          callback(null, {
+            CertificateSummaryList: [{ CertificateArn: "other_arn", DomainName: "other.com" }],
+            NextToken: "page_two",
+          });
+        } else {
+          callback(null, { CertificateSummaryList: [{ CertificateArn: "api_arn", DomainName: "api.example.com" }] });
+        }
+      });
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        const domainName = params.CertificateArn === "api_arn" ? "api.example.com" : "other.com";
         callback(null, {
-          HostedZones: [
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-            { Name: "ccc.com.", Id: "/hostedzone/test_id_4", Config: { PrivateZone: false } },
-          ],
+          Certificate: { CertificateArn: params.CertificateArn, DomainName: domainName, Status: "ISSUED" },
         });
       });
 
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "bar.foo.bbb.fr";
+      expect(await getCertArnFor("api.example.com")).to.equal("api_arn");
+    });
 
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_3");
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
     });
+  });
 
-    it("Sub domain name - reverse order", async () => {
-      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+  describe("Request a certificate", () => {
+    it("Requests and validates a certificate that does not exist", async () => {
+      let describeCertificateCalls = 0;
+      AWS.mock("ACM", "listCertificates", { CertificateSummaryList: [] });
+      AWS.mock("ACM", "requestCertificate", (params, callback) => {
+        callback(null, { CertificateArn: "requested_arn" });
+      });
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        describeCertificateCalls += 1;
+        const validationOption = { DomainName: "api.example.com", ValidationStatus: "PENDING_VALIDATION" };
+        if (describeCertificateCalls > 1) {
+          Object.assign(validationOption, {
+            ResourceRecord: { Name: "_x1.api.example.com.", Type: "CNAME", Value: "_x2.acm-validations.aws." },
+          });
+        }
         callback(null, {
-          HostedZones: [
-            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "ccc.com.", Id: "/hostedzone/test_id_4", Config: { PrivateZone: false } },
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-          ],
+          Certificate: {
+            CertificateArn: params.CertificateArn,
+            DomainValidationOptions: [validationOption],
+            Status: describeCertificateCalls > 2 ? "ISSUED" : "PENDING_VALIDATION",
+          },
         });
       });
-
-      const plugin = constructPlugin({});
-      plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "bar.foo.bbb.fr";
-
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_3");
-    });
-
-    it("Sub domain name - random order", async () => {
       AWS.mock("Route53", "listHostedZones", (params, callback) => {
         callback(null, {
-          HostedZones: [
-            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
-            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
-            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
-          ],
+          HostedZones: [{ Name: "example.com.", Id: "/hostedzone/test_id", Config: { PrivateZone: false } }],
         });
       });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, { ChangeInfo: { Id: "test_change_id" } });
+      });
 
-      const plugin = constructPlugin({});
+      const plugin = constructPlugin({ createCertificate: true, domainName: "api.example.com" });
+      plugin.initializeVariables();
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "bar.foo.bbb.fr";
+      plugin.domains[0].acm = new aws.ACM();
+      chai.spy.on(plugin, "sleep", () => Promise.resolve());
+      const requestSpy = chai.spy.on(plugin.domains[0].acm, "requestCertificate");
+      const route53Spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
 
-      const result = await plugin.getRoute53HostedZoneId();
-      expect(result).to.equal("test_id_3");
+      const result = await plugin.getCertArn(plugin.domains[0]);
+
+      expect(result).to.equal("requested_arn");
+      expect(requestSpy).to.have.been.called.with({ DomainName: "api.example.com", ValidationMethod: "DNS" });
+      expect(route53Spy).to.have.been.called.with({
+        ChangeBatch: {
+          Changes: [{
+            Action: "UPSERT",
+            ResourceRecordSet: {
+              Name: "_x1.api.example.com.",
+              ResourceRecords: [{ Value: "_x2.acm-validations.aws." }],
+              TTL: 300,
+              Type: "CNAME",
+            },
+          }],
+          Comment: "Certificate validation record created by serverless-domain-manager",
+        },
+        HostedZoneId: "test_id",
+      });
+      expect(consoleOutput).to.contain("Certificate requested_arn was issued.");
+    });
+
+    it("Fails when the requested certificate cannot be issued", async () => {
+      AWS.mock("ACM", "describeCertificate", (params, callback) => {
+        callback(null, { Certificate: { CertificateArn: params.CertificateArn, Status: "FAILED" } });
+      });
+      const plugin = constructPlugin({ createCertificate: true, domainName: "api.example.com" });
+      plugin.initializeVariables();
+      plugin.domains[0].acm = new aws.ACM();
+
+      let errored = false;
+      try {
+        await plugin.waitForCertificateIssued(plugin.domains[0], "requested_arn");
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Certificate requested_arn could not be issued, its status is FAILED.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Update an existing domain", () => {
+    it("Leaves an up to date domain alone", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, {
+          certificateArn: "test_given_arn",
+          distributionDomainName: "foo",
+          endpointConfiguration: { types: ["EDGE"] },
+          securityPolicy: "TLS_1_2",
+        });
+      });
+      AWS.mock("APIGateway", "updateDomainName", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "tagResource", (params, callback) => {
+        callback(null, {});
+      });
+      const plugin = constructPlugin({ certificateArn: "test_given_arn", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "updateDomainName");
+
+      await plugin.updateDomain();
+
+      expect(spy).to.not.have.been.called();
+      expect(consoleOutput).to.contain("Custom domain test_domain is up to date.");
+    });
+
+    it("Patches certificate and security policy", async () => {
+      AWS.mock("APIGateway", "updateDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo" });
+      });
+      const plugin = constructPlugin({ domainName: "test_domain", securityPolicy: "tls_1_0" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "updateDomainName");
+      const domainInfo = new DomainInfo({
+        certificateArn: "old_cert",
+        distributionDomainName: "foo",
+        endpointConfiguration: { types: ["EDGE"] },
+        securityPolicy: "TLS_1_2",
+      });
+
+      const result = await plugin.updateCustomDomain(plugin.domains[0], domainInfo, "new_cert");
+
+      expect(result.domainName).to.equal("foo");
+      expect(spy).to.have.been.called.with({
+        domainName: "test_domain",
+        patchOperations: [
+          { op: "replace", path: "/certificateArn", value: "new_cert" },
+          { op: "replace", path: "/securityPolicy", value: "TLS_1_0" },
+        ],
+      });
+    });
+
+    it("Re-applies the tags of the domain", async () => {
+      AWS.mock("APIGateway", "tagResource", (params, callback) => {
+        callback(null, {});
+      });
+      AWS.mock("ApiGatewayV2", "tagResource", (params, callback) => {
+        callback(null, {});
+      });
+      const plugin = constructPlugin({ domainName: "test_domain", tags: { owner: "payments", tier: 1 } });
+      plugin.serverless.service.provider.stackTags = { owner: "platform", team: "checkout" };
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "tagResource");
+      const httpPlugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      httpPlugin.initializeVariables();
+      httpPlugin.apigatewayV2 = new aws.ApiGatewayV2();
+      const httpSpy = chai.spy.on(httpPlugin.apigatewayV2, "tagResource");
+
+      await plugin.tagCustomDomain(plugin.domains[0]);
+      await httpPlugin.tagCustomDomain(httpPlugin.domains[0]);
+
+      expect(spy).to.have.been.called.with({
+        resourceArn: "arn:aws:apigateway:eu-west-1::/domainnames/test_domain",
+        tags: {
+          "owner": "payments",
+          "serverless:service": "test",
+          "serverless:stage": "test",
+          "team": "checkout",
+          "tier": "1",
+        },
+      });
+      expect(httpSpy).to.have.been.called.with({
+        ResourceArn: "arn:aws:apigateway:eu-west-1::/domainnames/test_domain",
+        Tags: { "serverless:service": "test", "serverless:stage": "test" },
+      });
+    });
+
+    it("Migrates the endpoint type and points the record to the new target", async () => {
+      AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, {
+          certificateArn: "test_arn",
+          distributionDomainName: "old_target",
+          distributionHostedZoneId: "old_zone",
+          endpointConfiguration: { types: ["EDGE"] },
+          securityPolicy: "TLS_1_2",
+        });
+      });
+      AWS.mock("APIGateway", "updateDomainName", (params, callback) => {
+        callback(null, { regionalDomainName: "new_target", regionalHostedZoneId: "new_zone" });
+      });
+      AWS.mock("APIGateway", "tagResource", (params, callback) => {
+        callback(null, {});
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({
+        certificateArn: "test_regional_arn",
+        domainName: "test_domain",
+        endpointType: "regional",
+        hostedZoneId: "test_host_id",
+      });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      const updateSpy = chai.spy.on(plugin.apigateway, "updateDomainName");
+      const route53Spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
+
+      await plugin.updateDomain();
+
+      expect(updateSpy).to.have.been.called.with({
+        domainName: "test_domain",
+        patchOperations: [
+          { op: "replace", path: "/endpointConfiguration/types/EDGE", value: "REGIONAL" },
+          { op: "add", path: "/regionalCertificateArn", value: "test_regional_arn" },
+        ],
+      });
+      expect(route53Spy).to.have.been.called();
+      expect(consoleOutput).to.contain("Custom domain test_domain was updated.");
+    });
+
+    it("Replaces the configuration of an API Gateway v2 domain", async () => {
+      AWS.mock("ApiGatewayV2", "updateDomainName", (params, callback) => {
+        callback(null, { DomainNameConfigurations: [{ ApiGatewayDomainName: "foo" }] });
+      });
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      const spy = chai.spy.on(plugin.apigatewayV2, "updateDomainName");
+      const domainInfo = new DomainInfo({
+        DomainNameConfigurations: [{
+          ApiGatewayDomainName: "foo",
+          CertificateArn: "old_cert",
+          EndpointType: "REGIONAL",
+          SecurityPolicy: "TLS_1_2",
+        }],
+      });
+
+      await plugin.updateCustomDomain(plugin.domains[0], domainInfo, "new_cert");
+
+      expect(spy).to.have.been.called.with({
+        DomainName: "test_domain",
+        DomainNameConfigurations: [{
+          CertificateArn: "new_cert",
+          EndpointType: "REGIONAL",
+          SecurityPolicy: "TLS_1_2",
+        }],
+      });
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Automatic creation and waiting", () => {
+    it("Creates a missing domain and waits for it before mapping", async () => {
+      let getDomainNameCalls = 0;
+      AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        getDomainNameCalls += 1;
+        if (getDomainNameCalls === 1) {
+          callback({ code: "NotFoundException" }, {});
+        } else {
+          const status = getDomainNameCalls === 2 ? "PENDING" : "AVAILABLE";
+          callback(null, { distributionDomainName: "foo", domainNameStatus: status });
+        }
+      });
+      AWS.mock("APIGateway", "createDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo", domainNameStatus: "PENDING" });
+      });
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, { items: [] });
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, { HostedZones: [{ Name: "test_domain", Id: "test_id", Config: { PrivateZone: false } }] });
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({ autoDomain: true, domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      plugin.domains[0].acm = new aws.ACM();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const sleepSpy = chai.spy.on(plugin, "sleep", () => Promise.resolve());
+      const createSpy = chai.spy.on(plugin, "createCustomDomain");
+      const mappingSpy = chai.spy.on(plugin, "createBasePathMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(createSpy).to.have.been.called();
+      expect(sleepSpy).to.have.been.called.exactly(1);
+      expect(mappingSpy).to.have.been.called();
+      expect(consoleOutput).to.contain("Waiting for test_domain to become available (status PENDING).");
+    });
+
+    it("Fails when the domain does not become available in time", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo", domainNameStatus: "PENDING" });
+      });
+      const plugin = constructPlugin({ autoDomain: "true", autoDomainWaitFor: "0", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+
+      let errored = false;
+      try {
+        await plugin.waitForDomainAvailable(plugin.domains[0]);
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Timed out after 0 seconds waiting for test_domain to become " +
+          "available, its status is PENDING.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("create_domain --wait waits for the domain and its records", async () => {
+      let getDomainNameCalls = 0;
+      let getChangeCalls = 0;
+      AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        getDomainNameCalls += 1;
+        if (getDomainNameCalls === 1) {
+          callback({ code: "NotFoundException" }, {});
+        } else {
+          callback(null, { distributionDomainName: "foo", domainNameStatus: "AVAILABLE" });
+        }
+      });
+      AWS.mock("APIGateway", "createDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo", domainNameStatus: "PENDING" });
+      });
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, { HostedZones: [{ Name: "test_domain", Id: "test_id", Config: { PrivateZone: false } }] });
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, { ChangeInfo: { Id: "test_change_id", Status: "PENDING" } });
+      });
+      AWS.mock("Route53", "getChange", (params, callback) => {
+        getChangeCalls += 1;
+        callback(null, { ChangeInfo: { Id: params.Id, Status: getChangeCalls === 1 ? "PENDING" : "INSYNC" } });
+      });
+
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.options.wait = true;
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      plugin.domains[0].acm = new aws.ACM();
+      const sleepSpy = chai.spy.on(plugin, "sleep", () => Promise.resolve());
+      const getChangeSpy = chai.spy.on(plugin.route53, "getChange");
+
+      await plugin.createDomain();
+
+      expect(getChangeSpy).to.have.been.called.with({ Id: "test_change_id" });
+      expect(sleepSpy).to.have.been.called.exactly(1);
+      expect(consoleOutput).to.contain(
+        "Waiting for the Route53 records of test_domain to be in sync (status PENDING).");
+      expect(consoleOutput).to.contain("Custom domain test_domain is ready.");
+    });
+
+    it("Fails when the records are not in sync in time", async () => {
+      AWS.mock("Route53", "getChange", (params, callback) => {
+        callback(null, { ChangeInfo: { Id: params.Id, Status: "PENDING" } });
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.route53 = new aws.Route53();
+
+      let errored = false;
+      try {
+        await plugin.waitForRecordSync(plugin.domains[0], "test_change_id", 0);
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Timed out after 0 seconds waiting for the Route53 records of " +
+          "test_domain to be in sync, the change test_change_id is PENDING.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Should throw an Error when autoDomain is not boolean", () => {
+      const plugin = constructPlugin({ autoDomain: "yes", domainName: "test_domain" });
+
+      let errored = false;
+      try {
+        plugin.initializeVariables();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("serverless-domain-manager: Ambiguous autoDomain boolean: \"yes\"");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("HTTP APIs", () => {
+    it("Defaults to a regional endpoint and the $default stage", () => {
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+
+      expect(plugin.domains[0].apiType).to.equal("HTTP");
+      expect(plugin.domains[0].endpointType).to.equal("REGIONAL");
+      expect(plugin.domains[0].stage).to.equal("$default");
+    });
+
+    it("Edge endpoints throw exception", () => {
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain", endpointType: "edge" });
+
+      let errored = false;
+      try {
+        plugin.initializeVariables();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("edge is not supported endpointType for HTTP APIs, use regional.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Unsupported api types throw exception", () => {
+      const plugin = constructPlugin({ apiType: "notSupported", domainName: "test_domain" });
+
+      let errored = false;
+      try {
+        plugin.initializeVariables();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("notSupported is not supported apiType, use rest, http or websocket.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Create a domain name", async () => {
+      AWS.mock("ApiGatewayV2", "createDomainName", (params, callback) => {
+        callback(null, {
+          DomainName: params.DomainName,
+          DomainNameConfigurations: [{
+            ApiGatewayDomainName: "foo",
+            HostedZoneId: "test_id",
+            SecurityPolicy: "TLS_1_2",
+          }],
+        });
+      });
+
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      const spy = chai.spy.on(plugin.apigatewayV2, "createDomainName");
+
+      const result = await plugin.createCustomDomain(plugin.domains[0], "fake_cert");
+
+      expect(spy).to.have.been.called.with({
+        DomainName: "test_domain",
+        DomainNameConfigurations: [{
+          CertificateArn: "fake_cert",
+          EndpointType: "REGIONAL",
+          SecurityPolicy: "TLS_1_2",
+        }],
+        Tags: { "serverless:service": "test", "serverless:stage": "test" },
+      });
+      expect(result.domainName).to.equal("foo");
+      expect(result.hostedZoneId).to.equal("test_id");
+    });
+
+    it("Fetches the HTTP API id from the stack", async () => {
+      AWS.mock("CloudFormation", "describeStackResource", (params, callback) => {
+        callback(null, {
+          StackResourceDetail: {
+            LogicalResourceId: params.LogicalResourceId,
+            PhysicalResourceId: "test_http_api_id",
+          },
+        });
+      });
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.cloudformation = new aws.CloudFormation();
+      const spy = chai.spy.on(plugin.cloudformation, "describeStackResource");
+
+      const result = await plugin.getApiId(plugin.domains[0]);
+
+      expect(result).to.equal("test_http_api_id");
+      expect(spy).to.have.been.called.with({
+        LogicalResourceId: "HttpApi",
+        StackName: "custom-stage-name",
+      });
+    });
+
+    it("Creates API mapping", async () => {
+      AWS.mock("ApiGatewayV2", "getApiMappings", (params, callback) => {
+        callback(null, { Items: [] });
+      });
+      AWS.mock("ApiGatewayV2", "createApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "getDomainName", (params, callback) => {
+        callback(null, { DomainNameConfigurations: [{ ApiGatewayDomainName: "foo", HostedZoneId: "test_id" }] });
+      });
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      plugin.serverless.service.provider.httpApi.id = "test_http_api_id";
+      const spy = chai.spy.on(plugin.apigatewayV2, "createApiMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(spy).to.have.been.called.with({
+        ApiId: "test_http_api_id",
+        ApiMappingKey: "",
+        DomainName: "test_domain",
+        Stage: "$default",
+      });
+    });
+
+    it("Updates API mapping", async () => {
+      AWS.mock("ApiGatewayV2", "getApiMappings", (params, callback) => {
+        callback(null, {
+          Items: [{ ApiId: "test_http_api_id", ApiMappingId: "test_mapping_id", ApiMappingKey: "", Stage: "$default" }],
+        });
+      });
+      AWS.mock("ApiGatewayV2", "updateApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "getDomainName", (params, callback) => {
+        callback(null, { DomainNameConfigurations: [{ ApiGatewayDomainName: "foo", HostedZoneId: "test_id" }] });
+      });
+      const plugin = constructPlugin({ apiType: "http", basePath: "api", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      plugin.serverless.service.provider.httpApi.id = "test_http_api_id";
+      const spy = chai.spy.on(plugin.apigatewayV2, "updateApiMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(spy).to.have.been.called.with({
+        ApiId: "test_http_api_id",
+        ApiMappingId: "test_mapping_id",
+        ApiMappingKey: "api",
+        DomainName: "test_domain",
+        Stage: "$default",
+      });
+    });
+
+    it("Removes API mapping", async () => {
+      AWS.mock("ApiGatewayV2", "getApiMappings", (params, callback) => {
+        callback(null, {
+          Items: [
+            { ApiId: "other_api_id", ApiMappingId: "other_mapping_id", ApiMappingKey: "other" },
+            { ApiId: "test_http_api_id", ApiMappingId: "test_mapping_id", ApiMappingKey: "" },
+          ],
+        });
+      });
+      AWS.mock("ApiGatewayV2", "deleteApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      plugin.serverless.service.provider.httpApi.id = "test_http_api_id";
+      const spy = chai.spy.on(plugin.apigatewayV2, "deleteApiMapping");
+
+      await plugin.removeBasePathMapping();
+
+      expect(spy).to.have.been.called.with({
+        ApiMappingId: "test_mapping_id",
+        DomainName: "test_domain",
+      });
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("WebSocket APIs", () => {
+    it("Defaults to a regional endpoint and the deployment stage", () => {
+      const plugin = constructPlugin({ apiType: "websocket", domainName: "test_domain" });
+      plugin.initializeVariables();
+
+      expect(plugin.domains[0].apiType).to.equal("WEBSOCKET");
+      expect(plugin.domains[0].endpointType).to.equal("REGIONAL");
+      expect(plugin.domains[0].stage).to.equal("test");
+    });
+
+    it("Fetches the WebSocket API id from the stack", async () => {
+      AWS.mock("CloudFormation", "describeStackResource", (params, callback) => {
+        callback(null, {
+          StackResourceDetail: {
+            LogicalResourceId: params.LogicalResourceId,
+            PhysicalResourceId: "test_websocket_api_id",
+          },
+        });
+      });
+      const plugin = constructPlugin({ apiType: "websocket", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.cloudformation = new aws.CloudFormation();
+      const spy = chai.spy.on(plugin.cloudformation, "describeStackResource");
+
+      const result = await plugin.getApiId(plugin.domains[0]);
+
+      expect(result).to.equal("test_websocket_api_id");
+      expect(spy).to.have.been.called.with({
+        LogicalResourceId: "WebsocketsApi",
+        StackName: "custom-stage-name",
+      });
+    });
+
+    it("Uses the configured WebSocket API id", async () => {
+      const plugin = constructPlugin({ apiType: "websocket", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.serverless.service.provider.apiGateway.websocketApiId = "custom_websocket_api_id";
+
+      const result = await plugin.getApiId(plugin.domains[0]);
+      expect(result).to.equal("custom_websocket_api_id");
+    });
+
+    it("Creates API mapping for the stage and prints the wss URL", async () => {
+      AWS.mock("ApiGatewayV2", "getApiMappings", (params, callback) => {
+        callback(null, { Items: [] });
+      });
+      AWS.mock("ApiGatewayV2", "createApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "getDomainName", (params, callback) => {
+        callback(null, { DomainNameConfigurations: [{ ApiGatewayDomainName: "foo", HostedZoneId: "test_id" }] });
+      });
+      const plugin = constructPlugin({ apiType: "websocket", basePath: "ws", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      plugin.serverless.service.provider.apiGateway.websocketApiId = "test_websocket_api_id";
+      const spy = chai.spy.on(plugin.apigatewayV2, "createApiMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(spy).to.have.been.called.with({
+        ApiId: "test_websocket_api_id",
+        ApiMappingKey: "ws",
+        DomainName: "test_domain",
+        Stage: "test",
+      });
+      expect(consoleOutput).to.contain("  wss://test_domain/ws");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Multiple basepath mappings", () => {
+    it("Reads the basepath mappings of a domain", () => {
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1", stage: "prod" }, { basePath: "latest" }],
+        domainName: "test_domain",
+      });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain, "test");
+
+      expect(dc.basePathMappings).to.deep.equal([
+        { basePath: "v1", stage: "prod" },
+        { basePath: "latest", stage: "test" },
+      ]);
+      expect(dc.basePath).to.equal("v1");
+      expect(dc.stage).to.equal("test");
+    });
+
+    it("Looks up the API in the stack of the deployed stage, not of the mapped stages", async () => {
+      AWS.mock("CloudFormation", "describeStackResource", {
+        StackResourceDetail: { LogicalResourceId: "ApiGatewayRestApi", PhysicalResourceId: "test_rest_api_id" },
+      });
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1", stage: "blue" }, { basePath: "latest", stage: "green" }],
+        domainName: "test_domain",
+      });
+      plugin.options.stage = "prod";
+      plugin.serverless.service.provider.stackName = undefined;
+      plugin.initializeVariables();
+      plugin.cloudformation = new aws.CloudFormation();
+      const spy = chai.spy.on(plugin.cloudformation, "describeStackResource");
+
+      expect(await plugin.getApiId(plugin.domains[0])).to.equal("test_rest_api_id");
+      expect(spy).to.have.been.called.with({ LogicalResourceId: "ApiGatewayRestApi", StackName: "test-prod" });
+      expect(plugin.domains[0].basePathMappings.map((mapping) => mapping.stage)).to.deep.equal(["blue", "green"]);
+    });
+
+    it("Should throw an Error when a base path is mapped twice", () => {
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1" }, { basePath: "v1", stage: "prod" }],
+        domainName: "test_domain",
+      });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: basePath v1 is mapped twice for test_domain.");
+    });
+
+    it("Should throw an Error when a REST domain maps the empty base path along with others", () => {
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1" }, { basePath: "" }],
+        domainName: "test_domain",
+      });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: the empty basePath of test_domain cannot be mapped along with other base paths " +
+        "for REST APIs.");
+    });
+
+    it("Should throw an Error when basePath and basePathMappings are both given", () => {
+      const plugin = constructPlugin({
+        basePath: "api",
+        basePathMappings: [{ basePath: "v1" }],
+        domainName: "test_domain",
+      });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: test_domain configures both basePath and basePathMappings, use one of them.");
+    });
+
+    it("Creates, updates and cleans up the basepath mappings of the API", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, {
+          items: [
+            { basePath: "v1", restApiId: "test_rest_api_id", stage: "old" },
+            { basePath: "latest", restApiId: "test_rest_api_id", stage: "test" },
+            { basePath: "legacy", restApiId: "test_rest_api_id", stage: "test" },
+            { basePath: "other", restApiId: "other_rest_api_id", stage: "test" },
+          ],
+        });
+      });
+      AWS.mock("APIGateway", "updateBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo" });
+      });
+
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1" }, { basePath: "latest" }],
+        domainName: "test_domain",
+      });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const updateSpy = chai.spy.on(plugin.apigateway, "updateBasePathMapping");
+      const deleteSpy = chai.spy.on(plugin.apigateway, "deleteBasePathMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(updateSpy).to.have.been.called.exactly(1);
+      expect(updateSpy).to.have.been.called.with({
+        basePath: "v1",
+        domainName: "test_domain",
+        patchOperations: [{ op: "replace", path: "/stage", value: "test" }],
+      });
+      expect(deleteSpy).to.have.been.called.exactly(1);
+      expect(deleteSpy).to.have.been.called.with({ basePath: "legacy", domainName: "test_domain" });
+    });
+
+    it("Creates a new basepath mapping next to the existing ones", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, { items: [{ basePath: "v1", restApiId: "test_rest_api_id", stage: "test" }] });
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "foo" });
+      });
+
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1" }, { basePath: "latest", stage: "prod" }],
+        domainName: "test_domain",
+      });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const createSpy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(createSpy).to.have.been.called.exactly(1);
+      expect(createSpy).to.have.been.called.with({
+        basePath: "latest",
+        domainName: "test_domain",
+        restApiId: "test_rest_api_id",
+        stage: "prod",
+      });
+    });
+
+    it("Replaces the empty basepath mapping with a non-empty one", async () => {
+      const calls = [];
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, { items: [{ basePath: "(none)", restApiId: "test_rest_api_id", stage: "test" }] });
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        calls.push(`delete ${params.basePath}`);
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        calls.push(`create ${params.basePath}`);
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+
+      await plugin.reconcileBasePathMappings(plugin.domains[0], "test_rest_api_id");
+
+      expect(calls).to.deep.equal(["delete (none)", "create api"]);
+      expect(consoleOutput[0]).to.equal("Replacing basepath mapping (none) with api for test_domain, " +
+        "as API Gateway cannot move mappings between empty and non-empty base paths.");
+    });
+
+    it("Restores the old basepath mappings if the empty one cannot be created", async () => {
+      const calls = [];
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, {
+          items: [
+            { basePath: "v1", restApiId: "test_rest_api_id", stage: "test" },
+            { basePath: "latest", restApiId: "test_rest_api_id", stage: "test" },
+          ],
+        });
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        calls.push(`delete ${params.basePath}`);
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        calls.push(`create ${params.basePath}`);
+        if (params.basePath === "(none)") {
+          callback({ code: "BadRequestException" }, {});
+        } else {
+          callback(null, params);
+        }
+      });
+
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+
+      let errored = false;
+      try {
+        await plugin.reconcileBasePathMappings(plugin.domains[0], "test_rest_api_id");
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Unable to create basepath mapping for test_domain.\n");
+      }
+      expect(errored).to.equal(true);
+      expect(calls).to.deep.equal(["delete v1", "delete latest", "create (none)", "create v1", "create latest"]);
+      expect(consoleOutput).to.contain("Restoring basepath mapping v1, latest for test_domain.");
+    });
+
+    it("Removes every basepath mapping", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [
+          { basePath: "v1", restApiId: "test_rest_api_id", stage: "test" },
+          { basePath: "latest", restApiId: "test_rest_api_id", stage: "test" },
+        ],
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({
+        basePathMappings: [{ basePath: "v1" }, { basePath: "latest" }],
+        domainName: "test_domain",
+      });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+
+      await plugin.removeBasePathMapping();
+
+      expect(consoleOutput.slice(1)).to.deep.equal([
+        "Removed basepath mapping v1 for test_domain.",
+        "Removed basepath mapping latest for test_domain.",
+      ]);
+    });
+
+    it("Refuses to map base paths owned by other APIs, even with serverless' --force", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "api", restApiId: "other_rest_api_id", stage: "prod" }],
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
+      plugin.options.force = true;
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const createSpy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
+
+      let errored = false;
+      try {
+        await plugin.setupBasePathMapping();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: test_domain already maps api (API other_rest_api_id) to other APIs. " +
+          "Use --force-basepath-takeover to take them over.\n");
+      }
+      expect(errored).to.equal(true);
+      expect(createSpy).to.not.have.been.called();
+    });
+
+    it("Treats the empty base path of a REST domain as conflicting with every other mapping", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "(none)", restApiId: "other_rest_api_id", stage: "prod" }],
+      });
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+
+      let errored = false;
+      try {
+        await plugin.takeOverBasePaths(plugin.domains[0], "test_rest_api_id");
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: test_domain already maps (none) (API other_rest_api_id) to other APIs. " +
+          "Use --force-basepath-takeover to take them over.\n");
+      }
+      expect(errored).to.equal(true);
+
+      AWS.restore();
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [
+          { basePath: "v1", restApiId: "other_rest_api_id", stage: "prod" },
+          { basePath: "(none)", restApiId: "test_rest_api_id", stage: "test" },
+        ],
+      });
+      const emptyPlugin = constructPlugin({ basePath: "", domainName: "test_domain" });
+      emptyPlugin.initializeVariables();
+      emptyPlugin.apigateway = new aws.APIGateway();
+
+      errored = false;
+      try {
+        await emptyPlugin.takeOverBasePaths(emptyPlugin.domains[0], "test_rest_api_id");
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: test_domain already maps v1 (API other_rest_api_id) to other APIs. " +
+          "Use --force-basepath-takeover to take them over.\n");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Takes over base paths owned by other APIs with --force-basepath-takeover", async () => {
+      const calls = [];
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "api", restApiId: "other_rest_api_id", stage: "prod" }],
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        calls.push(`delete ${params.basePath}`);
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        calls.push(`create ${params.basePath} ${params.restApiId}`);
+        callback(null, params);
+      });
+      AWS.mock("APIGateway", "getDomainName", { distributionDomainName: "foo" });
+
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
+      plugin.options["force-basepath-takeover"] = true;
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+
+      await plugin.setupBasePathMapping();
+
+      expect(calls).to.deep.equal(["delete api", "create api test_rest_api_id"]);
+      expect(consoleOutput).to.contain("Taking over api (API other_rest_api_id) of test_domain.");
+    });
+
+    it("Refuses to remove base paths owned by other APIs", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [{ basePath: "api", restApiId: "other_rest_api_id", stage: "prod" }],
+      });
+      AWS.mock("APIGateway", "deleteBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({ basePath: "api", domainName: "test_domain" });
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const deleteSpy = chai.spy.on(plugin.apigateway, "deleteBasePathMapping");
+
+      let errored = false;
+      try {
+        await plugin.removeBasePathMapping();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Basepath mapping api of test_domain belongs to API other_rest_api_id, " +
+          "not to test_rest_api_id. Use --force-basepath-takeover to remove it anyway.\n");
+      }
+      expect(errored).to.equal(true);
+      expect(deleteSpy).to.not.have.been.called();
+    });
+
+    it("Reconciles the API mappings of an HTTP API", async () => {
+      AWS.mock("ApiGatewayV2", "getApiMappings", (params, callback) => {
+        callback(null, {
+          Items: [
+            { ApiId: "test_http_api_id", ApiMappingId: "none_id", ApiMappingKey: "", Stage: "$default" },
+            { ApiId: "test_http_api_id", ApiMappingId: "legacy_id", ApiMappingKey: "legacy", Stage: "$default" },
+          ],
+        });
+      });
+      AWS.mock("ApiGatewayV2", "createApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "updateApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "deleteApiMapping", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "getDomainName", (params, callback) => {
+        callback(null, { DomainNameConfigurations: [{ ApiGatewayDomainName: "foo", HostedZoneId: "test_id" }] });
+      });
+
+      const plugin = constructPlugin({
+        apiType: "http",
+        basePathMappings: [{ basePath: "" }, { basePath: "v1" }],
+        domainName: "test_domain",
+      });
+      plugin.initializeVariables();
+      plugin.apigatewayV2 = new aws.ApiGatewayV2();
+      plugin.serverless.service.provider.httpApi.id = "test_http_api_id";
+      const createSpy = chai.spy.on(plugin.apigatewayV2, "createApiMapping");
+      const updateSpy = chai.spy.on(plugin.apigatewayV2, "updateApiMapping");
+      const deleteSpy = chai.spy.on(plugin.apigatewayV2, "deleteApiMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(createSpy).to.not.have.been.called();
+      expect(deleteSpy).to.not.have.been.called();
+      expect(updateSpy).to.have.been.called.with({
+        ApiId: "test_http_api_id",
+        ApiMappingId: "legacy_id",
+        ApiMappingKey: "v1",
+        DomainName: "test_domain",
+        Stage: "$default",
+      });
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Multiple domains", () => {
+    it("Reads domains from customDomain and customDomains", () => {
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.serverless.service.custom.customDomains = [
+        Object.assign({}, plugin.serverless.service.custom.customDomain, {
+          domainName: "test_domain_two",
+          endpointType: "regional",
+        }),
+        Object.assign({}, plugin.serverless.service.custom.customDomain, {
+          domainName: "test_domain_three",
+          enabled: false,
+        }),
+      ];
+
+      plugin.initializeVariables();
+
+      expect(plugin.domains.map((domain) => domain.givenDomainName)).to.deep.equal([
+        "test_domain",
+        "test_domain_two",
+      ]);
+      expect(plugin.domains[1].endpointType).to.equal("REGIONAL");
+      expect(plugin.domains[1].acm.config.region).to.equal("eu-west-1");
+      expect(plugin.domains[0].acm.config.region).to.equal("us-east-1");
+    });
+
+    it("Should throw an Error when customDomains is not a list", () => {
+      const plugin = constructPlugin({});
+      Object.assign(plugin.serverless.service.custom, {
+        customDomain: undefined,
+        customDomains: { domainName: "test_domain" },
+      });
+      // Serverless only warns about schema violations by default, so the plugin still checks the list itself
+      plugin.serverless.configSchemaHandler = { defineCustomProperties: () => undefined };
+
+      let errored = false;
+      try {
+        plugin.initializeVariables();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal(
+          "serverless-domain-manager: customDomains must be a list of domain configurations.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Creates every domain and reports the ones that failed", async () => {
+      AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "NotFoundException" }, {});
+      });
+      AWS.mock("APIGateway", "createDomainName", (params, callback) => {
+        if (params.domainName === "two.test_domain") {
+          callback({ code: "BadRequestException" }, {});
+        } else {
+          callback(null, { distributionDomainName: "foo", regionalHostedZoneId: "test_id" });
+        }
+      });
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, { HostedZones: [{ Name: "test_domain", Id: "test_id", Config: { PrivateZone: false } }] });
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.serverless.service.custom.customDomains = [
+        Object.assign({}, plugin.serverless.service.custom.customDomain, { domainName: "two.test_domain" }),
+        Object.assign({}, plugin.serverless.service.custom.customDomain, { domainName: "three.test_domain" }),
+      ];
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      plugin.domains.forEach((domain) => domain.acm = new aws.ACM());
+
+      let errored = false;
+      try {
+        await plugin.createDomain();
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: 1 of 3 custom domains failed.\n" +
+          "  two.test_domain: Error: Failed to create custom domain two.test_domain");
+      }
+      expect(errored).to.equal(true);
+      expect(consoleOutput).to.contain(`Custom domain test_domain was created.
+            New domains may take up to 40 minutes to be initialized.`);
+      expect(consoleOutput).to.contain(`Custom domain three.test_domain was created.
+            New domains may take up to 40 minutes to be initialized.`);
+    });
+
+    it("Prints a summary for every domain", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: `${params.domainName}_target` });
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.serverless.service.custom.customDomains = [
+        Object.assign({}, plugin.serverless.service.custom.customDomain, { domainName: "test_domain_two" }),
+      ];
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+
+      await plugin.domainSummary();
+      expect(consoleOutput[0]).to.contain("Serverless Domain Manager Summary");
+      expect(consoleOutput[2]).to.contain("test_domain");
+      expect(consoleOutput[4]).to.contain("test_domain_target");
+      expect(consoleOutput[7]).to.contain("test_domain_two");
+      expect(consoleOutput[9]).to.contain("test_domain_two_target");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Multiple regions", () => {
+    const multiRegionOptions = {
+      domainName: "api.test_domain",
+      endpointType: "regional",
+      hostedZoneId: "test_host_id",
+      regions: [
+        { certificateArn: "eu_cert_arn", healthCheckId: "eu_health_check", region: "eu-west-1" },
+        { certificateArn: "us_cert_arn", healthCheckId: "us_health_check", region: "us-east-1" },
+      ],
+    };
+
+    it("Splits a domain into one copy per region", () => {
+      const plugin = constructPlugin(multiRegionOptions);
+      plugin.initializeVariables();
+
+      expect(plugin.domains.map((domain) => domain.region)).to.deep.equal(["eu-west-1", "us-east-1"]);
+      expect(plugin.domains[0].apigateway).to.equal(undefined);
+      expect(plugin.domains[1].apigateway.config.region).to.equal("us-east-1");
+      expect(plugin.domains[1].acm.config.region).to.equal("us-east-1");
+      expect(plugin.domains[1].certificateArn).to.equal("us_cert_arn");
+      expect(plugin.domains[1].route53Params).to.deep.equal({
+        evaluateTargetHealth: false,
+        failover: undefined,
+        healthCheckId: "us_health_check",
+        routingPolicy: "latency",
+        setIdentifier: "us-east-1",
+        weight: undefined,
+      });
+    });
+
+    it("Refuses to delete a copy in another region that other APIs are mapped to", async () => {
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [
+          { basePath: "api", restApiId: "us_rest_api_id", stage: "test" },
+          { basePath: "other", restApiId: "other_rest_api_id", stage: "prod" },
+        ],
+      });
+      AWS.mock("CloudFormation", "describeStackResource", {
+        StackResourceDetail: { LogicalResourceId: "ApiGatewayRestApi", PhysicalResourceId: "us_rest_api_id" },
+      });
+      const plugin = constructPlugin(multiRegionOptions);
+      plugin.initializeVariables();
+      const usSpy = chai.spy.on(plugin.domains[1].cloudformation, "describeStackResource");
+      const confirmSpy = chai.spy.on(plugin, "confirm", () => Promise.resolve(true));
+
+      let errored = false;
+      try {
+        await plugin.confirmDomainDeletion(plugin.domains[1]);
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Other APIs are still mapped to api.test_domain. " +
+          "Use --force to delete it anyway.\n");
+      }
+      expect(errored).to.equal(true);
+      expect(plugin.domains[1].cloudformation.config.region).to.equal("us-east-1");
+      expect(usSpy).to.have.been.called.exactly(1);
+      expect(confirmSpy).to.not.have.been.called();
+    });
+
+    it("Creates a domain and a latency record in every region", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "NotFoundException" }, {});
+      });
+      AWS.mock("APIGateway", "createDomainName", (params, callback) => {
+        callback(null, { regionalDomainName: `${params.regionalCertificateArn}_target`, regionalHostedZoneId: "z" });
+      });
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin(multiRegionOptions);
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.route53 = new aws.Route53();
+      const usSpy = chai.spy.on(plugin.domains[1].apigateway, "createDomainName");
+      const route53Spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
+
+      await plugin.createDomain();
+
+      expect(usSpy).to.have.been.called.exactly(1);
+      const recordSets = route53Spy.__spy.calls.map((call) => call[0].ChangeBatch.Changes[0].ResourceRecordSet);
+      expect(recordSets).to.deep.equal(["eu-west-1", "us-east-1"].map((region) => ({
+        AliasTarget: {
+          DNSName: `${region.substr(0, 2)}_cert_arn_target`,
+          EvaluateTargetHealth: false,
+          HostedZoneId: "z",
+        },
+        HealthCheckId: `${region.substr(0, 2)}_health_check`,
+        Name: "api.test_domain",
+        Region: region,
+        SetIdentifier: region,
+        Type: "A",
+      })));
+    });
+
+    it("Maps the API in the deployment region only and summarizes every region", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { regionalDomainName: "regional_target", regionalHostedZoneId: "z" });
+      });
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, { items: [] });
+      });
+      AWS.mock("APIGateway", "createBasePathMapping", (params, callback) => {
+        callback(null, params);
+      });
+
+      const plugin = constructPlugin(multiRegionOptions);
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+      const euSpy = chai.spy.on(plugin.apigateway, "createBasePathMapping");
+      const usSpy = chai.spy.on(plugin.domains[1].apigateway, "createBasePathMapping");
+
+      await plugin.setupBasePathMapping();
+
+      expect(euSpy).to.have.been.called.exactly(1);
+      expect(usSpy).to.not.have.been.called();
+      expect(consoleOutput).to.contain("  Region: eu-west-1");
+      expect(consoleOutput).to.contain("  Region: us-east-1");
+      expect(consoleOutput.filter((line) => line === "  api.test_domain")).to.have.length(1);
+
+      await plugin.addOutputs();
+      expect(Object.keys(plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs))
+        .to.deep.equal(["DomainName", "HostedZoneId"]);
+    });
+
+    it("Should throw an Error when the deployment region is not listed", () => {
+      const plugin = constructPlugin(Object.assign({}, multiRegionOptions, { regions: [{ region: "us-east-1" }] }));
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: regions of api.test_domain " +
+        "do not include the deployment region eu-west-1.");
+    });
+
+    it("Should throw an Error when a multi-region domain is not regional", () => {
+      const plugin = constructPlugin(Object.assign({}, multiRegionOptions, { endpointType: "edge" }));
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: regions of api.test_domain " +
+        "require endpointType regional.");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Managed by CloudFormation", () => {
+    const cloudFormationOptions = {
+      basePathMappings: [{ basePath: "api" }, { basePath: "v1", stage: "old" }],
+      certificateArn: "test_given_arn",
+      domainName: "api.test_domain",
+      hostedZoneId: "test_host_id",
+      managedBy: "cloudformation",
+    };
+
+    it("Adds the domain, its mappings and its records to the template", async () => {
+      const plugin = constructPlugin(cloudFormationOptions);
+      plugin.serverless.service.provider.compiledCloudFormationTemplate.Resources = {
+        ApiGatewayDeployment123: { Type: "AWS::ApiGateway::Deployment" },
+        ApiGatewayRestApi: { Type: "AWS::ApiGateway::RestApi" },
+      };
+
+      await plugin.hookWrapper(plugin.addResources);
+
+      const resources = plugin.serverless.service.provider.compiledCloudFormationTemplate.Resources;
+      expect(Object.keys(resources)).to.deep.equal([
+        "ApiGatewayDeployment123",
+        "ApiGatewayRestApi",
+        "CustomDomainApiTestDomain",
+        "CustomDomainApiTestDomainBasePathMappingApi",
+        "CustomDomainApiTestDomainBasePathMappingV1",
+        "CustomDomainApiTestDomainRecordSetGroup",
+      ]);
+      expect(resources.CustomDomainApiTestDomain.Properties).to.deep.equal({
+        CertificateArn: "test_given_arn",
+        DomainName: "api.test_domain",
+        EndpointConfiguration: { Types: ["EDGE"] },
+        SecurityPolicy: "TLS_1_2",
+        Tags: [{ Key: "serverless:service", Value: "test" }, { Key: "serverless:stage", Value: "test" }],
+      });
+      expect(resources.CustomDomainApiTestDomainBasePathMappingApi).to.deep.equal({
+        DependsOn: ["ApiGatewayDeployment123"],
+        Properties: {
+          BasePath: "api",
+          DomainName: { Ref: "CustomDomainApiTestDomain" },
+          RestApiId: { Ref: "ApiGatewayRestApi" },
+          Stage: "test",
+        },
+        Type: "AWS::ApiGateway::BasePathMapping",
+      });
+      expect(resources.CustomDomainApiTestDomainBasePathMappingV1.Properties.BasePath).to.equal("v1");
+      expect(resources.CustomDomainApiTestDomainBasePathMappingV1.Properties.Stage).to.equal("old");
+      expect(resources.CustomDomainApiTestDomainRecordSetGroup.Properties).to.deep.equal({
+        HostedZoneId: "test_host_id",
+        RecordSets: ["A", "AAAA"].map((Type) => ({
+          AliasTarget: {
+            DNSName: { "Fn::GetAtt": ["CustomDomainApiTestDomain", "DistributionDomainName"] },
+            EvaluateTargetHealth: false,
+            HostedZoneId: { "Fn::GetAtt": ["CustomDomainApiTestDomain", "DistributionHostedZoneId"] },
+          },
+          Name: "api.test_domain",
+          Type,
+        })),
+      });
+    });
+
+    it("Uses the regional certificate and target of regional domains", async () => {
+      const plugin = constructPlugin(Object.assign({}, cloudFormationOptions, {
+        createRoute53Record: false,
+        endpointType: "regional",
+      }));
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+
+      await plugin.hookWrapper(plugin.addResources);
+
+      const resources = plugin.serverless.service.provider.compiledCloudFormationTemplate.Resources;
+      expect(resources.CustomDomainApiTestDomain.Properties.RegionalCertificateArn).to.equal("test_given_arn");
+      expect(resources.CustomDomainApiTestDomainBasePathMappingV1.Properties.RestApiId).to.equal("test_rest_api_id");
+      expect(resources.CustomDomainApiTestDomainRecordSetGroup).to.equal(undefined);
+      expect(plugin.serverless.service.provider.compiledCloudFormationTemplate.Outputs).to.deep.equal({
+        DomainName: { Value: { "Fn::GetAtt": ["CustomDomainApiTestDomain", "RegionalDomainName"] } },
+        HostedZoneId: { Value: { "Fn::GetAtt": ["CustomDomainApiTestDomain", "RegionalHostedZoneId"] } },
+      });
+    });
+
+    it("Leaves the base path out of the mapping of the empty base path", async () => {
+      const plugin = constructPlugin(Object.assign({}, cloudFormationOptions, {
+        basePathMappings: [{ basePath: "" }],
+      }));
+      plugin.serverless.service.provider.apiGateway.restApiId = "test_rest_api_id";
+
+      await plugin.hookWrapper(plugin.addResources);
+
+      const resources = plugin.serverless.service.provider.compiledCloudFormationTemplate.Resources;
+      expect(resources.CustomDomainApiTestDomainBasePathMappingNone.Properties).to.deep.equal({
+        DomainName: { Ref: "CustomDomainApiTestDomain" },
+        RestApiId: "test_rest_api_id",
+        Stage: "test",
+      });
+    });
+
+    it("Leaves the domain to the stack on deploy, remove and the domain commands", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback(null, { distributionDomainName: "test_distribution", distributionHostedZoneId: "z" });
+      });
+      const plugin = constructPlugin(cloudFormationOptions);
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "getDomainName");
+
+      await plugin.createDomain();
+      await plugin.updateDomain();
+      await plugin.deleteDomain();
+      await plugin.removeBasePathMapping();
+      expect(spy).to.not.have.been.called();
+
+      await plugin.setupBasePathMapping();
+      expect(spy).to.have.been.called.exactly(1);
+      expect(consoleOutput).to.contain("Custom domain api.test_domain is managed by CloudFormation, " +
+        "deploy or remove the service to change it.");
+      expect(consoleOutput).to.contain("  Target Domain: test_distribution");
+    });
+
+    it("Should throw an Error for APIs other than REST APIs", () => {
+      const plugin = constructPlugin({ apiType: "http", domainName: "api.test_domain", managedBy: "cloudformation" });
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: managedBy cloudformation " +
+        "supports REST APIs only, api.test_domain belongs to a HTTP API.");
+    });
+
+    it("Should throw an Error when managedBy is not supported", () => {
+      const plugin = constructPlugin({ domainName: "api.test_domain", managedBy: "terraform" });
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: terraform is not a " +
+        "supported managedBy, use plugin or cloudformation.");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Cloudflare DNS", () => {
+    const mockCloudflare = (plugin, records) => chai.spy.on(plugin.dnsProviders.cloudflare, "request",
+      (...args: any[]) => {
+        const [method, path] = args;
+        if (path.startsWith("/zones?")) {
+          return Promise.resolve(path === "/zones?name=example.com" ? [{ id: "test_zone_id" }] : []);
+        }
+        return Promise.resolve(method === "GET" ? records : {});
+      });
+
+    it("Creates a CNAME record in the enclosing zone", async () => {
+      const plugin = constructPlugin({ dnsProvider: "cloudflare", domainName: "api.example.com" });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      const spy = mockCloudflare(plugin, []);
+
+      const result = await plugin.changeResourceRecordSet(dc, "UPSERT", new DomainInfo({
+        distributionDomainName: "test_distribution_name",
+      }));
+
+      expect(result).to.equal(undefined);
+      expect(spy.__spy.calls).to.deep.equal([
+        ["GET", "/zones?name=api.example.com"],
+        ["GET", "/zones?name=example.com"],
+        ["GET", "/zones/test_zone_id/dns_records?type=CNAME&name=api.example.com"],
+        ["POST", "/zones/test_zone_id/dns_records", {
+          content: "test_distribution_name",
+          name: "api.example.com",
+          proxied: false,
+          ttl: 1,
+          type: "CNAME",
+        }],
+      ]);
+    });
+
+    it("Updates and deletes an existing CNAME record", async () => {
+      const plugin = constructPlugin({
+        dnsProvider: "cloudflare",
+        domainName: "api.example.com",
+        hostedZoneId: "test_zone_id",
+      });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      const spy = mockCloudflare(plugin, [{ id: "test_record_id" }]);
+      const domainInfo = new DomainInfo({ regionalDomainName: "test_regional_name" });
+
+      await plugin.changeResourceRecordSet(dc, "UPSERT", domainInfo);
+      await plugin.changeResourceRecordSet(dc, "DELETE", domainInfo);
+
+      expect(spy).to.have.been.called.with("PUT", "/zones/test_zone_id/dns_records/test_record_id");
+      expect(spy).to.have.been.called.with("DELETE", "/zones/test_zone_id/dns_records/test_record_id");
+    });
+
+    it("Fails without an API token", async () => {
+      const plugin = constructPlugin({ dnsProvider: "cloudflare", domainName: "api.example.com" });
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      delete process.env.CLOUDFLARE_API_TOKEN;
+
+      let errored = false;
+      try {
+        await plugin.changeResourceRecordSet(dc, "UPSERT", new DomainInfo({}));
+      } catch (err) {
+        errored = true;
+        expect(err.message).to.equal("Error: Unable to list zones in Cloudflare.\n" +
+          "Error: CLOUDFLARE_API_TOKEN must be set to manage Cloudflare records.");
+      }
+      expect(errored).to.equal(true);
+    });
+
+    it("Should throw an Error when dnsProvider is not supported", () => {
+      const plugin = constructPlugin({ dnsProvider: "bind", domainName: "api.example.com" });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: bind is not a supported dnsProvider, use route53 or cloudflare.");
+    });
+
+    afterEach(() => {
+      consoleOutput = [];
+    });
+  });
+
+  describe("Assumed roles", () => {
+    const roleOptions = {
+      acmRole: { roleArn: "arn:aws:iam::123456789012:role/certificates" },
+      domainName: "test_domain",
+      route53Role: { externalId: "test_external_id", roleArn: "arn:aws:iam::123456789012:role/dns" },
+    };
+
+    it("Assumes the configured roles for Route53 and ACM", () => {
+      const plugin = constructPlugin(roleOptions);
+      plugin.initializeVariables();
+
+      const domain = plugin.domains[0];
+      expect(domain.route53.config.credentials.service.config.params).to.deep.equal({
+        ExternalId: "test_external_id",
+        RoleArn: "arn:aws:iam::123456789012:role/dns",
+        RoleSessionName: "serverless-domain-manager",
+      });
+      expect(domain.acm.config.credentials.service.config.params.RoleArn)
+        .to.equal("arn:aws:iam::123456789012:role/certificates");
+      expect(domain.acm.config.region).to.equal("us-east-1");
+      expect(plugin.getRoute53(domain)).to.equal(domain.route53);
+      expect(plugin.apigateway.config.credentials.accessKeyId).to.equal(testCreds.accessKeyId);
+    });
+
+    it("Changes the records through the assumed role", async () => {
+      AWS.mock("Route53", "changeResourceRecordSets", (params, callback) => {
+        callback(null, params);
+      });
+      const plugin = constructPlugin(Object.assign({ hostedZoneId: "test_host_id" }, roleOptions));
+      plugin.initializeVariables();
+      plugin.route53 = new aws.Route53();
+      const domain = plugin.domains[0];
+      domain.route53 = new aws.Route53();
+      const spy = chai.spy.on(plugin.route53, "changeResourceRecordSets");
+      const roleSpy = chai.spy.on(domain.route53, "changeResourceRecordSets");
+
+      await plugin.changeResourceRecordSet(domain, "UPSERT", new DomainInfo({
+        distributionDomainName: "test_distribution_name",
+        distributionHostedZoneId: "test_id",
+      }));
+
+      expect(roleSpy).to.have.been.called.exactly(1);
+      expect(spy).to.not.have.been.called();
+    });
+
+    it("Should throw an Error when the role is not an ARN", () => {
+      const plugin = constructPlugin({ domainName: "test_domain", route53Role: { roleArn: "dns" } });
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: route53Role.roleArn " +
+        "must be the ARN of a role, got \"dns\"");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Mutual TLS", () => {
+    const mutualTlsOptions = {
+      certificateArn: "test_given_arn",
+      domainName: "test_domain",
+      endpointType: "regional",
+      mutualTls: { truststoreUri: "s3://test-bucket/truststore.pem", truststoreVersion: "v2" },
+    };
+
+    it("Creates REST and HTTP domains with a truststore", async () => {
+      AWS.mock("APIGateway", "createDomainName", (params, callback) => {
+        callback(null, params);
+      });
+      AWS.mock("ApiGatewayV2", "createDomainName", (params, callback) => {
+        callback(null, params);
+      });
+      const plugin = constructPlugin(mutualTlsOptions);
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "createDomainName");
+      const httpPlugin = constructPlugin(Object.assign({ apiType: "http" }, mutualTlsOptions));
+      httpPlugin.initializeVariables();
+      httpPlugin.apigatewayV2 = new aws.ApiGatewayV2();
+      const httpSpy = chai.spy.on(httpPlugin.apigatewayV2, "createDomainName");
+
+      await plugin.createCustomDomain(plugin.domains[0], "test_given_arn");
+      await httpPlugin.createCustomDomain(httpPlugin.domains[0], "test_given_arn");
+
+      expect(spy.__spy.calls[0][0].mutualTlsAuthentication).to.deep.equal({
+        truststoreUri: "s3://test-bucket/truststore.pem",
+        truststoreVersion: "v2",
+      });
+      expect(httpSpy.__spy.calls[0][0].MutualTlsAuthentication).to.deep.equal({
+        TruststoreUri: "s3://test-bucket/truststore.pem",
+        TruststoreVersion: "v2",
+      });
+    });
+
+    it("Patches the truststore version of an existing domain", async () => {
+      AWS.mock("APIGateway", "updateDomainName", (params, callback) => {
+        callback(null, { regionalDomainName: "foo" });
+      });
+      const plugin = constructPlugin(mutualTlsOptions);
+      plugin.initializeVariables();
+      plugin.apigateway = new aws.APIGateway();
+      const spy = chai.spy.on(plugin.apigateway, "updateDomainName");
+      const domainInfo = new DomainInfo({
+        endpointConfiguration: { types: ["REGIONAL"] },
+        mutualTlsAuthentication: { truststoreUri: "s3://test-bucket/truststore.pem", truststoreVersion: "v1" },
+        regionalCertificateArn: "test_given_arn",
+        regionalDomainName: "foo",
+        securityPolicy: "TLS_1_2",
+      });
+
+      await plugin.updateCustomDomain(plugin.domains[0], domainInfo, "test_given_arn");
+
+      expect(spy).to.have.been.called.with({
+        domainName: "test_domain",
+        patchOperations: [{ op: "replace", path: "/mutualTlsAuthentication/truststoreVersion", value: "v2" }],
+      });
+    });
+
+    it("Prints the truststore in the summary", async () => {
+      AWS.mock("APIGateway", "getDomainName", {
+        mutualTlsAuthentication: {
+          truststoreUri: "s3://test-bucket/truststore.pem",
+          truststoreVersion: "v2",
+          truststoreWarnings: ["certificate expired"],
+        },
+        regionalDomainName: "foo",
+      });
+      const plugin = constructPlugin(mutualTlsOptions);
+      plugin.initializeVariables();
+
+      await plugin.domainSummary();
+
+      expect(consoleOutput).to.contain("  Truststore: s3://test-bucket/truststore.pem");
+      expect(consoleOutput).to.contain("  Truststore Version: v2");
+      expect(consoleOutput).to.contain("  Truststore Warning: certificate expired");
+    });
+
+    it("Should throw an Error when mutualTls is used with an edge domain", () => {
+      const plugin = constructPlugin(Object.assign({}, mutualTlsOptions, { endpointType: "edge" }));
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: mutualTls of test_domain " +
+        "requires endpointType regional.");
+    });
+
+    afterEach(() => {
+      AWS.restore();
+      consoleOutput = [];
+    });
+  });
+
+  describe("Select Hosted Zone", () => {
+    it("Natural order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
+            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "ccc.bbb.aaa.com";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_2");
+    });
+
+    it("Reverse order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "test.ccc.bbb.aaa.com";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_1");
+    });
+
+    it("Random order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "ddd.ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "ccc.bbb.aaa.com.", Id: "/hostedzone/test_id_2", Config: { PrivateZone: false } },
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "test.ccc.bbb.aaa.com";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_2");
+    });
+
+    it("Sub domain name - only root hosted zones", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "ccc.com.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "bar.foo.bbb.fr";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_1");
+    });
+
+    it("With matching root and sub hosted zone", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "a.aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "test.a.aaa.com";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_0");
+    });
+
+    it("Sub domain name - natural order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+            { Name: "ccc.com.", Id: "/hostedzone/test_id_4", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "bar.foo.bbb.fr";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_3");
+    });
+
+    it("Sub domain name - reverse order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "ccc.com.", Id: "/hostedzone/test_id_4", Config: { PrivateZone: false } },
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "bar.foo.bbb.fr";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_3");
+    });
+
+    it("Sub domain name - random order", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        callback(null, {
+          HostedZones: [
+            { Name: "bbb.fr.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } },
+            { Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } },
+            { Name: "foo.bbb.fr.", Id: "/hostedzone/test_id_3", Config: { PrivateZone: false } },
+          ],
+        });
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "bar.foo.bbb.fr";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_3");
     });
 
     it("Private zone domain name", async () => {
@@ -885,10 +2989,11 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({});
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "aaa.com";
-      plugin.hostedZonePrivate = true;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "aaa.com";
+      dc.hostedZonePrivate = true;
 
-      const result = await plugin.getRoute53HostedZoneId();
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
       expect(result).to.equal("test_id_0");
     });
 
@@ -903,12 +3008,38 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({});
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = "aaa.com";
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "aaa.com";
 
-      const result = await plugin.getRoute53HostedZoneId();
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
       expect(result).to.equal("test_id_0");
     });
 
+    it("Follows the NextMarker through every page", async () => {
+      AWS.mock("Route53", "listHostedZones", (params, callback) => {
+        if (params.Marker === undefined) {
+          callback(null, {
+            HostedZones: [{ Name: "aaa.com.", Id: "/hostedzone/test_id_0", Config: { PrivateZone: false } }],
+            IsTruncated: true,
+            NextMarker: "page_two",
+          });
+        } else {
+          callback(null, {
+            HostedZones: [{ Name: "bbb.aaa.com.", Id: "/hostedzone/test_id_1", Config: { PrivateZone: false } }],
+            IsTruncated: false,
+          });
+        }
+      });
+
+      const plugin = constructPlugin({});
+      plugin.route53 = new aws.Route53();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.givenDomainName = "ccc.bbb.aaa.com";
+
+      const result = await plugin.dnsProviders.route53.getHostedZoneId(dc);
+      expect(result).to.equal("test_id_1");
+    });
+
     afterEach(() => {
       AWS.restore();
       consoleOutput = [];
@@ -918,15 +3049,17 @@ describe("Custom Domain Plugin", () => {
   describe("Error Catching", () => {
     it("If a certificate cannot be found when a name is given", async () => {
       AWS.mock("ACM", "listCertificates", certTestData);
+      AWS.mock("ACM", "describeCertificate", describeCertTestData);
 
       const options = {
         certificateName: "does_not_exist",
         domainName: "",
       };
       const plugin = constructPlugin(options);
-      plugin.acm = new aws.ACM();
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
+      dc.acm = new aws.ACM();
 
-      return plugin.getCertArn().then(() => {
+      return plugin.getCertArn(dc).then(() => {
         throw new Error("Test has failed. getCertArn did not catch errors.");
       }).catch((err) => {
         const expectedErrorMessage = "Error: Could not find the certificate does_not_exist.";
@@ -934,6 +3067,26 @@ describe("Custom Domain Plugin", () => {
       });
     });
 
+    it("Should throw an Error when routingPolicy is not supported", () => {
+      const plugin = constructPlugin({ domainName: "test_domain", route53Params: { routingPolicy: "geo" } });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: geo is not a supported routingPolicy, use simple, weighted, latency or failover.");
+    });
+
+    it("Should throw an Error when a weighted record misses its setIdentifier or weight", () => {
+      let plugin = constructPlugin({ domainName: "test_domain", route53Params: { routingPolicy: "weighted" } });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: route53Params.setIdentifier is required for weighted routing.");
+
+      plugin = constructPlugin({
+        domainName: "test_domain",
+        route53Params: { routingPolicy: "weighted", setIdentifier: "blue", weight: 256 },
+      });
+      expect(() => new DomainConfig(plugin.serverless.service.custom.customDomain)).to.throw(
+        "serverless-domain-manager: route53Params.weight must be a number between 0 and 255 for weighted routing, " +
+        "got \"256\"");
+    });
+
     it("Fail getHostedZone", async () => {
       AWS.mock("Route53", "listHostedZones", (params, callback) => {
         callback(null, { HostedZones: [{ Name: "no_hosted_zone", Id: "test_id" }] });
@@ -941,9 +3094,9 @@ describe("Custom Domain Plugin", () => {
 
       const plugin = constructPlugin({ domainName: "test_domain"});
       plugin.route53 = new aws.Route53();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
+      const dc: DomainConfig = new DomainConfig(plugin.serverless.service.custom.customDomain);
 
-      return plugin.getRoute53HostedZoneId().then(() => {
+      return plugin.dnsProviders.route53.getHostedZoneId(dc).then(() => {
         throw new Error("Test has failed, getHostedZone did not catch errors.");
       }).catch((err) => {
         const expectedErrorMessage = "Error: Could not find hosted zone \"test_domain\"";
@@ -956,8 +3109,8 @@ describe("Custom Domain Plugin", () => {
         callback(null, null);
       });
       const plugin = constructPlugin({ domainName: "test_domain"});
+      plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
 
       return plugin.domainSummary().then(() => {
         // check if distribution domain name is printed
@@ -969,7 +3122,6 @@ describe("Custom Domain Plugin", () => {
 
     it("Should log if SLS_DEBUG is set", async () => {
       const plugin = constructPlugin({ domainName: "test_domain" });
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
 
       // set sls debug to true
       process.env.SLS_DEBUG = "True";
@@ -979,7 +3131,6 @@ describe("Custom Domain Plugin", () => {
 
     it("Should not log if SLS_DEBUG is not set", async () => {
       const plugin = constructPlugin({ domainName: "test_domain" });
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
 
       plugin.logIfDebug("test message");
       expect(consoleOutput).to.not.contain("test message");
@@ -992,14 +3143,62 @@ describe("Custom Domain Plugin", () => {
     });
   });
 
+  describe("Configuration schema", () => {
+    it("Registers the schema with Serverless and leaves the validation to it", () => {
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      const custom: any = plugin.serverless.service.custom;
+      custom.customDomain.basepath = "api";
+      const schemas = [];
+      plugin.serverless.configSchemaHandler = { defineCustomProperties: (schema) => schemas.push(schema) };
+      const registered = new ServerlessCustomDomain(plugin.serverless, plugin.options);
+      registered.initializeVariables();
+
+      expect(schemas).to.have.length(1);
+      expect(Object.keys(schemas[0].properties)).to.deep.equal(["customDomain", "customDomains"]);
+    });
+
+    it("Should throw an Error for unknown properties and wrong types", () => {
+      const plugin = constructPlugin({ domainName: "test_domain", stage: 5 });
+      const custom: any = plugin.serverless.service.custom;
+      custom.customDomain.basepath = "api";
+      custom.customDomains = [{
+        domainName: "test_domain_two",
+        route53Params: { routingPolicy: "simple", weigth: 10 },
+      }];
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: Invalid configuration.\n" +
+        "  custom.customDomain.stage should be of type string, got number\n" +
+        "  custom.customDomain has an unknown property basepath, did you mean basePath?\n" +
+        "  custom.customDomains[0].route53Params has an unknown property weigth");
+    });
+
+    it("Should report wrong types before evaluating the values", () => {
+      const plugin = constructPlugin({ domainName: "test_domain", endpointType: 5 });
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: Invalid configuration.\n" +
+        "  custom.customDomain.endpointType should be of type string, got number");
+    });
+
+    it("Should throw an Error when the domain name is missing", () => {
+      const plugin = constructPlugin({ basePath: "api" });
+
+      expect(() => plugin.initializeVariables()).to.throw("serverless-domain-manager: Invalid configuration.\n" +
+        "  custom.customDomain.domainName is required");
+    });
+
+    afterEach(() => {
+      consoleOutput = [];
+    });
+  });
+
   describe("Summary Printing", () => {
     it("Prints Summary", async () => {
       AWS.mock("APIGateway", "getDomainName", (params, callback) => {
         callback(null, { domainName: params, distributionDomainName: "test_distributed_domain_name" });
       });
       const plugin = constructPlugin({domainName: "test_domain"});
+      plugin.initializeVariables();
       plugin.apigateway = new aws.APIGateway();
-      plugin.givenDomainName = plugin.serverless.service.custom.customDomain.domainName;
 
       await plugin.domainSummary();
       expect(consoleOutput[0]).to.contain("Serverless Domain Manager Summary");
@@ -1009,6 +3208,170 @@ describe("Custom Domain Plugin", () => {
       expect(consoleOutput[4]).to.contain("test_distributed_domain_name");
     });
 
+    it("Prints the domain info as JSON", async () => {
+      AWS.mock("APIGateway", "getDomainName", {
+        certificateArn: "test_given_arn",
+        distributionDomainName: "test_distributed_domain_name",
+        domainNameStatus: "AVAILABLE",
+        endpointConfiguration: { types: ["EDGE"] },
+        securityPolicy: "TLS_1_2",
+      });
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [
+          { basePath: "api", restApiId: "test_rest_api_id", stage: "test" },
+          { basePath: "other", restApiId: "other_rest_api_id", stage: "prod" },
+        ],
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.options.json = true;
+
+      await plugin.hooks["domain_info:info"]();
+
+      expect(consoleOutput).to.have.length(1);
+      expect(JSON.parse(consoleOutput[0])).to.deep.equal({
+        domains: [{
+          basePathMappings: [
+            { apiId: "test_rest_api_id", basePath: "api", stage: "test" },
+            { apiId: "other_rest_api_id", basePath: "other", stage: "prod" },
+          ],
+          certificateArn: "test_given_arn",
+          domainName: "test_domain",
+          endpointType: "EDGE",
+          exists: true,
+          hostedZoneId: "Z2FDTNDATAQYW2",
+          mutualTls: null,
+          region: "eu-west-1",
+          securityPolicy: "TLS_1_2",
+          status: "AVAILABLE",
+          targetDomainName: "test_distributed_domain_name",
+        }],
+      });
+    });
+
+    it("Prints the API mappings of HTTP domains", async () => {
+      AWS.mock("ApiGatewayV2", "getDomainName", {
+        DomainNameConfigurations: [{ ApiGatewayDomainName: "test_regional_name", EndpointType: "REGIONAL" }],
+      });
+      AWS.mock("ApiGatewayV2", "getApiMappings", {
+        Items: [{ ApiId: "test_http_api_id", ApiMappingKey: "", Stage: "$default" }],
+      });
+      const plugin = constructPlugin({ apiType: "http", domainName: "test_domain" });
+
+      await plugin.hooks["domain_info:info"]();
+
+      expect(consoleOutput[0]).to.contain("Serverless Domain Manager Info");
+      expect(consoleOutput).to.contain("  Target Domain: test_regional_name");
+      expect(consoleOutput).to.contain("  Endpoint Type: REGIONAL");
+      expect(consoleOutput).to.contain("  (none) -> test_http_api_id ($default)");
+    });
+
+    it("Lists the domains of the region with their APIs and stacks", async () => {
+      AWS.mock("APIGateway", "getDomainNames", {
+        items: [
+          { domainName: "edge_domain", endpointConfiguration: { types: ["EDGE"] } },
+          { domainName: "regional_domain", endpointConfiguration: { types: ["REGIONAL"] } },
+        ],
+      });
+      AWS.mock("APIGateway", "getRestApis", { items: [{ id: "test_rest_api_id", name: "test-api" }] });
+      AWS.mock("ApiGatewayV2", "getApis", { Items: [{ ApiId: "test_http_api_id", Name: "other-api" }] });
+      AWS.mock("APIGateway", "getBasePathMappings", (params, callback) => {
+        callback(null, params.domainName === "edge_domain" ? {
+          items: [{ basePath: "api", restApiId: "test_rest_api_id", stage: "test" }],
+        } : {});
+      });
+      AWS.mock("ApiGatewayV2", "getApiMappings", {
+        Items: [{ ApiId: "test_http_api_id", ApiMappingKey: "", Stage: "$default" }],
+      });
+      AWS.mock("CloudFormation", "describeStackResources", (params, callback) => {
+        callback(null, {
+          StackResources: [{
+            StackName: params.PhysicalResourceId === "test_rest_api_id" ? "custom-stage-name" : "other-stack",
+          }],
+        });
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.options.json = true;
+
+      await plugin.hooks["list_domains:list"]();
+
+      expect(JSON.parse(consoleOutput[0])).to.deep.equal({
+        domains: [{
+          basePathMappings: [{
+            apiId: "test_rest_api_id",
+            apiName: "test-api",
+            basePath: "api",
+            currentService: true,
+            stackName: "custom-stage-name",
+            stage: "test",
+          }],
+          domainName: "edge_domain",
+          endpointType: "EDGE",
+        }, {
+          basePathMappings: [{
+            apiId: "test_http_api_id",
+            apiName: "other-api",
+            basePath: "(none)",
+            currentService: false,
+            stackName: "other-stack",
+            stage: "$default",
+          }],
+          domainName: "regional_domain",
+          endpointType: "REGIONAL",
+        }],
+      });
+    });
+
+    it("Marks the mappings of the current service in the domain list", async () => {
+      AWS.mock("APIGateway", "getDomainNames", {
+        items: [{ domainName: "test_domain", endpointConfiguration: { types: ["EDGE"] } }],
+      });
+      AWS.mock("APIGateway", "getRestApis", { items: [{ id: "test_rest_api_id", name: "test-api" }] });
+      AWS.mock("ApiGatewayV2", "getApis", { Items: [] });
+      AWS.mock("APIGateway", "getBasePathMappings", {
+        items: [
+          { basePath: "api", restApiId: "test_rest_api_id", stage: "test" },
+          { basePath: "manual", restApiId: "manual_api_id", stage: "prod" },
+        ],
+      });
+      AWS.mock("CloudFormation", "describeStackResources", (params, callback) => {
+        if (params.PhysicalResourceId === "test_rest_api_id") {
+          callback(null, { StackResources: [{ StackName: "custom-stage-name" }] });
+        } else {
+          callback({ code: "ValidationError", message: "Stack for manual_api_id does not exist" }, {});
+        }
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+
+      await plugin.hooks["list_domains:list"]();
+
+      expect(consoleOutput[0]).to.contain("Serverless Domain Manager Domains");
+      expect(consoleOutput[1]).to.contain("test_domain (EDGE)");
+      expect(consoleOutput[2]).to.contain(
+        "  api -> test-api (test_rest_api_id), stage test, stack custom-stage-name (this service)");
+      expect(consoleOutput[3]).to.equal("  manual -> unknown API (manual_api_id), stage prod, stack none");
+    });
+
+    it("Declares its options of the Serverless commands it extends", () => {
+      const plugin = constructPlugin({ domainName: "test_domain" });
+
+      const options = ["deploy", "info", "remove"].map((name) => Object.keys(plugin.commands[name].options));
+      expect(options).to.deep.equal([["force-basepath-takeover"], ["json"], ["force-basepath-takeover"]]);
+    });
+
+    it("Reports missing domains in the JSON summary", async () => {
+      AWS.mock("APIGateway", "getDomainName", (params, callback) => {
+        callback({ code: "NotFoundException" }, {});
+      });
+      const plugin = constructPlugin({ domainName: "test_domain" });
+      plugin.options.json = true;
+
+      await plugin.hooks["after:info:info"]();
+
+      expect(JSON.parse(consoleOutput[0])).to.deep.equal({
+        domains: [{ domainName: "test_domain", exists: false, region: "eu-west-1" }],
+      });
+    });
+
     afterEach(() => {
       AWS.restore();
       consoleOutput = [];
@@ -1017,7 +3380,7 @@ describe("Custom Domain Plugin", () => {
 
   describe("Enable/disable functionality", () => {
     it("Should enable the plugin by default", () => {
-      const plugin = constructPlugin({});
+      const plugin = constructPlugin({ domainName: "test_domain" });
 
       plugin.initializeVariables();
 
@@ -1028,7 +3391,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("Should enable the plugin when passing a true parameter with type boolean", () => {
-      const plugin = constructPlugin({ enabled: true });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: true });
 
       plugin.initializeVariables();
 
@@ -1039,7 +3402,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("Should enable the plugin when passing a true parameter with type string", () => {
-      const plugin = constructPlugin({ enabled: "true" });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: "true" });
 
       plugin.initializeVariables();
 
@@ -1050,7 +3413,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("Should disable the plugin when passing a false parameter with type boolean", () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       plugin.initializeVariables();
 
@@ -1058,7 +3421,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("Should disable the plugin when passing a false parameter with type string", () => {
-      const plugin = constructPlugin({ enabled: "false" });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: "false" });
 
       plugin.initializeVariables();
 
@@ -1066,7 +3429,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("createDomain should do nothing when domain manager is disabled", async () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       const result = await plugin.hookWrapper(plugin.createDomain);
 
@@ -1075,7 +3438,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("deleteDomain should do nothing when domain manager is disabled", async () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       const result = await plugin.hookWrapper(plugin.deleteDomain);
 
@@ -1084,7 +3447,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("setUpBasePathMapping should do nothing when domain manager is disabled", async () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       const result = await plugin.hookWrapper(plugin.setupBasePathMapping);
 
@@ -1093,7 +3456,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("removeBasePathMapping should do nothing when domain manager is disabled", async () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       const result = await plugin.hookWrapper(plugin.removeBasePathMapping);
 
@@ -1102,7 +3465,7 @@ describe("Custom Domain Plugin", () => {
     });
 
     it("domainSummary should do nothing when domain manager is disabled", async () => {
-      const plugin = constructPlugin({ enabled: false });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: false });
 
       const result = await plugin.hookWrapper(plugin.domainSummary);
 
@@ -1112,20 +3475,21 @@ describe("Custom Domain Plugin", () => {
 
     it("Should throw an Error when passing a parameter that is not boolean", () => {
       const stringWithValueYes = "yes";
-      const plugin = constructPlugin({ enabled: 0 });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: 0 });
 
       let errored = false;
       try {
         plugin.initializeVariables();
       } catch (err) {
         errored = true;
-        expect(err.message).to.equal("serverless-domain-manager: Ambiguous enablement boolean: \"0\"");
+        expect(err.message).to.equal("serverless-domain-manager: Invalid configuration.\n" +
+          "  custom.customDomain.enabled should be of type boolean or string, got number");
       }
       expect(errored).to.equal(true);
     });
 
     it("Should throw an Error when passing a parameter that cannot be converted to boolean", () => {
-      const plugin = constructPlugin({ enabled: "yes" });
+      const plugin = constructPlugin({ domainName: "test_domain", enabled: "yes" });
 
       let errored = false;
       try {
@@ -1,39 +1,128 @@
+import DomainConfig = require("./DomainConfig");
+import DomainInfo = require("./DomainInfo");
+
+export interface CustomDomain { // tslint:disable-line
+    domainName: string;
+    basePath: string | undefined;
+    stage: string | undefined;
+    certificateName: string | undefined;
+    certificateArn: string | undefined;
+    createRoute53Record: boolean | undefined;
+    endpointType: string | undefined;
+    hostedZoneId: string | undefined;
+    hostedZonePrivate: boolean | undefined;
+    enabled: boolean | string | undefined;
+    securityPolicy: string | undefined;
+    apiType: string | undefined;
+    autoDomain: boolean | string | undefined;
+    autoDomainWaitFor: number | string | undefined;
+    createCertificate: boolean | string | undefined;
+    route53Params: Route53Params | undefined;
+    regions: DomainRegion[] | undefined;
+    dnsProvider: string | undefined;
+    basePathMappings: BasePathMapping[] | undefined;
+    managedBy: string | undefined;
+    outputs: StackOutputs | undefined;
+    route53Role: AssumedRole | undefined;
+    acmRole: AssumedRole | undefined;
+    mutualTls: MutualTls | undefined;
+    tags: { [key: string]: string } | undefined;
+}
+
+export interface MutualTls { // tslint:disable-line
+    truststoreUri: string;
+    truststoreVersion: string | undefined;
+}
+
+export interface AssumedRole { // tslint:disable-line
+    roleArn: string;
+    externalId: string | undefined;
+}
+
+export interface StackOutputs { // tslint:disable-line
+    domainName: StackOutput | undefined;
+    hostedZoneId: StackOutput | undefined;
+}
+
+export interface StackOutput { // tslint:disable-line
+    name: string | undefined;
+    export: string | undefined;
+}
+
+export interface BasePathMapping { // tslint:disable-line
+    basePath: string | undefined;
+    stage: string | undefined;
+}
+
+export interface DomainMapping { // tslint:disable-line
+    apiId: string;
+    basePath: string;
+    stage: string;
+}
+
+export interface DomainRegion { // tslint:disable-line
+    region: string;
+    certificateArn: string | undefined;
+    healthCheckId: string | undefined;
+}
+
+export interface Route53Params { // tslint:disable-line
+    routingPolicy: string | undefined;
+    setIdentifier: string | undefined;
+    weight: number | string | undefined;
+    failover: string | undefined;
+    healthCheckId: string | undefined;
+    evaluateTargetHealth: boolean | string | undefined;
+}
+
+export interface DnsProvider { // tslint:disable-line
+    /**
+     * Creates, updates or deletes the records pointing the domain to its API Gateway target
+     * @param action: UPSERT or DELETE
+     * @returns the id of a Route53 change that can be waited for, if the provider has one
+     */
+    changeRecords(domain: DomainConfig, action: string, domainInfo: DomainInfo): Promise<string | undefined>;
+
+    /**
+     * Creates or updates the records validating a requested certificate
+     */
+    upsertValidationRecords(domain: DomainConfig, certificateArn: string, records: any[]): Promise<void>;
+}
+
 export interface ServerlessInstance { // tslint:disable-line
     service: {
         service: string
         provider: {
             stage: string
             stackName: string
+            stackTags?: { [key: string]: string },
+            tags?: { [key: string]: string },
             compiledCloudFormationTemplate: {
+                Resources?: any,
                 Outputs: any,
             },
             apiGateway: {
                 restApiId: string,
+                websocketApiId: string,
+            },
+            httpApi: {
+                id: string,
             },
         }
         custom: {
-            customDomain: {
-                domainName: string,
-                basePath: string | undefined,
-                stage: string | undefined,
-                certificateName: string | undefined,
-                certificateArn: string | undefined,
-                createRoute53Record: boolean | undefined,
-                endpointType: string | undefined,
-                hostedZoneId: string | undefined,
-                hostedZonePrivate: boolean | undefined,
-                enabled: boolean | string | undefined,
-                securityPolicy: string | undefined,
-            },
+            customDomain: CustomDomain | undefined,
+            customDomains?: CustomDomain[],
         },
     };
     providers: {
         aws: {
             sdk: {
                 APIGateway: any,
+                ApiGatewayV2: any,
                 Route53: any,
                 CloudFormation: any,
                 ACM: any,
+                ChainableTemporaryCredentials: any,
                 config: {
                     update(toUpdate: object): void,
                 },
@@ -42,6 +131,9 @@ export interface ServerlessInstance { // tslint:disable-line
             getRegion(),
         },
     };
+    configSchemaHandler?: {
+        defineCustomProperties(schema: object): void,
+    };
     cli: {
         log(str: string, entity?: string),
         consoleLog(str: any),
@@ -50,4 +142,9 @@ export interface ServerlessInstance { // tslint:disable-line
 
 export interface ServerlessOptions { // tslint:disable-line
     stage: string;
+    wait?: boolean;
+    "wait-timeout"?: string;
+    json?: boolean;
+    force?: boolean;
+    "force-basepath-takeover"?: boolean;
 }